@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { AlertPanel } from "@/components/market/alert-panel";
+
+export const metadata: Metadata = {
+  title: "價格提醒 - FFXIV 市場資料庫",
+};
+
+export default function AlertsPage() {
+  return <AlertPanel />;
+}
@@ -0,0 +1,3 @@
+import { createProxyHandler } from "@/lib/server/proxy-route";
+
+export const GET = createProxyHandler("universalis");
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { ArbitrageFinder } from "@/components/market/arbitrage-finder";
+
+export const metadata: Metadata = {
+  title: "跨服價差 - FFXIV 市場資料庫",
+};
+
+export default function ArbitragePage() {
+  return <ArbitrageFinder />;
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { z } from "zod";
+import { ItemDetail } from "@/components/market/item-detail";
+import { DEFAULT_DC } from "@/lib/market/worlds";
+import { fetchUpstreamJson } from "@/lib/server/upstream";
+import { rowSchema } from "@/lib/xivapi/schemas";
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ world?: string }>;
+};
+
+const itemNameSchema = rowSchema(z.object({ Name: z.string() }));
+
+function parseItemId(raw: string) {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// 讓貼到 Discord 的連結有物品名稱可以預覽
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const itemId = parseItemId(id);
+  if (!itemId) return {};
+
+  try {
+    const data = await fetchUpstreamJson(
+      "xivapi",
+      `sheet/Item/${itemId}`,
+      itemNameSchema,
+      new URLSearchParams({ fields: "Name" })
+    );
+    const name = data.fields.Name || `#${itemId}`;
+    return { title: `${name} - FFXIV 市場資料庫` };
+  } catch {
+    return { title: `#${itemId} - FFXIV 市場資料庫` };
+  }
+}
+
+export default async function ItemPage({ params, searchParams }: Props) {
+  const { id } = await params;
+  const { world } = await searchParams;
+  const itemId = parseItemId(id);
+  if (!itemId) notFound();
+
+  return <ItemDetail itemId={itemId} initialWorld={world || DEFAULT_DC} />;
+}
@@ -1,6 +1,8 @@
 import type React from "react";
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { Toaster } from "@/components/ui/toaster";
+import { AlertPoller } from "@/components/market/alert-poller";
 import "./globals.css";
 
 const _geist = Geist({ subsets: ["latin"] });
@@ -27,7 +29,11 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body className={`font-sans antialiased`}>{children}</body>
+      <body className={`font-sans antialiased`}>
+        {children}
+        <Toaster />
+        <AlertPoller />
+      </body>
     </html>
   );
 }
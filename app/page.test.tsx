@@ -0,0 +1,293 @@
+import { act, cleanup, render, screen } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import MarketplacePage from "@/app/page";
+import type { MarketItem } from "@/lib/market/items";
+import type { PriceInfo } from "@/lib/market/prices";
+
+// ===== Test Helpers =====
+type Deferred<T> = {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+};
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+// 模擬的請求故意不理 AbortSignal，就算被中止也照樣回來，
+// 這樣才測得到頁面自己有沒有把晚到的舊回應丟掉
+type RowCall = {
+  ids: number[];
+  onData: (rows: MarketItem[]) => void;
+  done: Deferred<MarketItem[]>;
+};
+type PriceCall = {
+  world: string;
+  ids: number[];
+  onData: (prices: Map<number, PriceInfo>) => void;
+  done: Deferred<Map<number, PriceInfo>>;
+};
+type SearchCall = { query: string; done: Deferred<number[]> };
+
+const calls = {
+  rows: [] as RowCall[],
+  prices: [] as PriceCall[],
+  search: [] as SearchCall[],
+};
+
+let currentParams = "";
+
+function rowsFor(ids: number[]): MarketItem[] {
+  return ids.map((id) => ({ id, name: `item-${id}`, iconUrl: "" }));
+}
+
+function pricesFor(ids: number[], minAll: number) {
+  return new Map(
+    ids.map((id) => [
+      id,
+      {
+        minAll,
+        minNQ: minAll,
+        minHQ: 0,
+        listingsFetched: 1,
+        depth: [],
+      } satisfies PriceInfo,
+    ])
+  );
+}
+
+/** 讓 pending 的 promise 與 effect 跑完 */
+async function flush() {
+  await act(async () => {
+    for (let i = 0; i < 5; i++) await Promise.resolve();
+  });
+}
+
+async function resolveRows(call: RowCall) {
+  await act(async () => {
+    const rows = rowsFor(call.ids);
+    call.onData(rows);
+    call.done.resolve(rows);
+  });
+  await flush();
+}
+
+async function resolvePrices(call: PriceCall, minAll: number) {
+  await act(async () => {
+    const prices = pricesFor(call.ids, minAll);
+    call.onData(prices);
+    call.done.resolve(prices);
+  });
+  await flush();
+}
+
+function cardTexts() {
+  return screen.queryAllByTestId("card").map((el) => el.textContent);
+}
+
+// ===== Mocks =====
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn() }),
+  usePathname: () => "/",
+  useSearchParams: () => new URLSearchParams(currentParams),
+}));
+
+vi.mock("next/link", () => ({
+  default: ({ children }: { children: ReactNode }) => <>{children}</>,
+}));
+
+vi.mock("@/lib/market/items", () => ({
+  fetchMarketableIds: vi.fn(async () =>
+    Array.from({ length: 250 }, (_, i) => i + 1)
+  ),
+  fetchItemLevels: vi.fn(async () => new Map()),
+  searchItemsRemote: vi.fn((query: string) => {
+    const done = deferred<number[]>();
+    calls.search.push({ query, done });
+    return done.promise;
+  }),
+  fetchItemRowsCached: vi.fn(
+    (ids: number[], onData: (rows: MarketItem[]) => void) => {
+      const done = deferred<MarketItem[]>();
+      calls.rows.push({ ids, onData, done });
+      return done.promise;
+    }
+  ),
+}));
+
+vi.mock("@/lib/market/prices", () => ({
+  scanPriceMapCached: vi.fn(async () => new Map()),
+  refreshPriceMap: vi.fn(async () => new Map()),
+  fetchPriceMapCached: vi.fn(
+    (
+      world: string,
+      ids: number[],
+      onData: (prices: Map<number, PriceInfo>) => void
+    ) => {
+      const done = deferred<Map<number, PriceInfo>>();
+      calls.prices.push({ world, ids, onData, done });
+      return done.promise;
+    }
+  ),
+}));
+
+const LOCAL_ITEMS = { items: {}, status: "missing" as const };
+const CATEGORIES = {
+  kinds: [],
+  categories: [],
+  status: "ready" as "ready" | "error",
+  retry: vi.fn(),
+};
+
+vi.mock("@/hooks/use-local-items", () => ({
+  useLocalItemsState: () => LOCAL_ITEMS,
+}));
+vi.mock("@/hooks/use-item-categories", () => ({
+  useItemCategories: () => CATEGORIES,
+}));
+vi.mock("@/hooks/use-world-registry", async () => {
+  const { BUNDLED_WORLD_REGISTRY } = await import("@/lib/market/worlds");
+  return { useWorldRegistry: () => BUNDLED_WORLD_REGISTRY };
+});
+vi.mock("@/hooks/use-tax-rate", () => ({
+  useTaxRate: () => ({ city: "Limsa Lominsa", rate: 0.05, rates: null }),
+}));
+
+// 版面元件與這裡要測的資料流無關，換成最簡單的版本
+vi.mock("@/components/ui/sidebar", () => ({
+  SidebarProvider: ({ children }: { children: ReactNode }) => <>{children}</>,
+  SidebarInset: ({ children }: { children: ReactNode }) => <>{children}</>,
+  SidebarTrigger: () => null,
+}));
+vi.mock("@/components/market/category-sidebar", () => ({
+  CategorySidebar: () => null,
+}));
+vi.mock("@/components/market/command-palette", () => ({
+  CommandPalette: () => null,
+}));
+vi.mock("@/components/market/grid-controls", () => ({
+  GridControls: () => null,
+}));
+vi.mock("@/components/market/local-items-notice", () => ({
+  LocalItemsNotice: () => null,
+}));
+vi.mock("@/components/market/tax-city-select", () => ({
+  TaxCitySelect: () => null,
+}));
+vi.mock("@/components/market/world-select", () => ({
+  WorldSelect: () => null,
+}));
+vi.mock("@/components/market/market-item-card", () => ({
+  MarketItemCard: ({
+    item,
+    price,
+  }: {
+    item: MarketItem;
+    price?: PriceInfo;
+  }) => (
+    <div data-testid="card">
+      {item.name}:{price ? price.minAll : "-"}
+    </div>
+  ),
+  MarketItemCardSkeleton: () => <div data-testid="skeleton" />,
+}));
+
+// ===== Tests =====
+async function renderPage(params: string) {
+  currentParams = params;
+  const view = render(<MarketplacePage />);
+  await flush();
+  return view;
+}
+
+async function navigate(view: ReturnType<typeof render>, params: string) {
+  currentParams = params;
+  view.rerender(<MarketplacePage />);
+  await flush();
+}
+
+beforeEach(() => {
+  calls.rows = [];
+  calls.prices = [];
+  calls.search = [];
+  CATEGORIES.status = "ready";
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("Marketplace data loading", () => {
+  it("keeps page 2 items when page 1 rows arrive late", async () => {
+    const view = await renderPage("");
+    await navigate(view, "page=2");
+
+    const [page1, page2] = calls.rows;
+    expect(page1.ids[0]).toBe(1);
+    expect(page2.ids[0]).toBe(101);
+
+    await resolveRows(page2);
+    await resolveRows(page1);
+
+    const texts = cardTexts();
+    expect(texts).toHaveLength(100);
+    expect(texts[0]).toMatch(/^item-101:/);
+  });
+
+  it("keeps the new world's prices when the old world's prices arrive late", async () => {
+    const view = await renderPage("");
+    await resolveRows(calls.rows[0]);
+    await navigate(view, "world=Tonberry");
+
+    const [oldPrices, newPrices] = calls.prices;
+    expect(oldPrices.world).not.toBe(newPrices.world);
+
+    await resolvePrices(newPrices, 200);
+    await resolvePrices(oldPrices, 100);
+
+    await resolveRows(calls.rows[1]);
+    expect(cardTexts()[0]).toBe("item-1:200");
+  });
+
+  it("ignores a search that resolves after the query changed", async () => {
+    const view = await renderPage("q=foo");
+    // 可交易 ID 載完時會重新搜尋一次，取最後一次的 foo
+    const foo = calls.search[calls.search.length - 1];
+    await navigate(view, "q=bar");
+    const bar = calls.search[calls.search.length - 1];
+    expect(foo.query).toBe("foo");
+    expect(bar.query).toBe("bar");
+
+    await act(async () => bar.done.resolve([5]));
+    await flush();
+    const settled = calls.rows.length;
+    await act(async () => foo.done.resolve([7]));
+    await flush();
+
+    expect(calls.rows[settled - 1].ids).toEqual([5]);
+    // 舊的 foo 結果回來後不該再觸發任何物品查詢
+    expect(calls.rows).toHaveLength(settled);
+  });
+
+  it("clears the searching spinner when the query is emptied mid-search", async () => {
+    const view = await renderPage("q=foo");
+    expect(screen.queryByText(/個結果/)).toBeNull();
+
+    await navigate(view, "");
+    await act(async () => calls.search.forEach((c) => c.done.resolve([7])));
+    await flush();
+
+    expect(screen.queryByText(/個結果/)).not.toBeNull();
+  });
+
+  it("stops the category spinner when the category table failed to load", async () => {
+    CATEGORIES.status = "error";
+    await renderPage("kind=1");
+
+    expect(screen.queryByText("分類表載入失敗")).not.toBeNull();
+    expect(screen.queryByText(/個結果/)).not.toBeNull();
+  });
+});
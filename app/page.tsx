@@ -1,75 +1,152 @@
 "use client";
 
-import { useEffect, useMemo, useState, useCallback } from "react";
-import { Card } from "@/components/ui/card";
+import {
+  Suspense,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useCallback,
+} from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { Input } from "@/components/ui/input";
-import { Search, Loader2, Globe } from "lucide-react";
-
-// ===== Type Definitions =====
-interface MarketItem {
-  id: number;
-  name: string; // 這裡存 API 原本給的名稱 (通常是英文)
-  iconUrl: string;
-}
-
-type PriceInfo = {
-  minAll: number;
-  minAllWorld?: string;
-  minNQ: number;
-  minNQWorld?: string;
-  minHQ: number;
-  minHQWorld?: string;
-  listingsFetched: number;
-  lastUploadTime?: number;
-};
-
-// items.json 的結構
-type LocalItemData = {
-  id: number;
-  name: string;
-};
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { CategorySidebar } from "@/components/market/category-sidebar";
+import { CommandPalette } from "@/components/market/command-palette";
+import { GridControls } from "@/components/market/grid-controls";
+import { LocalItemsNotice } from "@/components/market/local-items-notice";
+import {
+  MarketItemCard,
+  MarketItemCardSkeleton,
+} from "@/components/market/market-item-card";
+import { TaxCitySelect } from "@/components/market/tax-city-select";
+import { WorldSelect } from "@/components/market/world-select";
+import { useItemCategories } from "@/hooks/use-item-categories";
+import { useLatestRequest } from "@/hooks/use-latest-request";
+import { useLocalItemsState } from "@/hooks/use-local-items";
+import { useTaxRate } from "@/hooks/use-tax-rate";
+import { useWorldRegistry } from "@/hooks/use-world-registry";
+import { resolveCategoryIds } from "@/lib/market/categories";
+import { applyGridView, needsFullPrices } from "@/lib/market/grid-view";
+import {
+  fetchItemLevels,
+  fetchItemRowsCached,
+  fetchMarketableIds,
+  searchItemsRemote,
+  type MarketItem,
+} from "@/lib/market/items";
+import {
+  fetchPriceMapCached,
+  refreshPriceMap,
+  scanPriceMapCached,
+  type PriceInfo,
+} from "@/lib/market/prices";
+import { getSearchIndex, searchIndex } from "@/lib/market/search-index";
+import {
+  buildMarketParams,
+  parseMarketParams,
+  type MarketUrlState,
+} from "@/lib/market/url-state";
+import { getScope, isMultiWorldScope } from "@/lib/market/worlds";
+import Link from "next/link";
+import {
+  Search,
+  Loader2,
+  ArrowLeftRight,
+  Bookmark,
+  Bell,
+  ShoppingCart,
+  Users,
+} from "lucide-react";
 
 // ===== Config / Constants =====
 const PAGE_SIZE = 100;
-const LISTINGS_PER_ITEM = 20;
-
-const CN_WORLDS = [
-  { id: 4028, name: "伊弗利特" },
-  { id: 4029, name: "迦樓羅" },
-  { id: 4030, name: "利維坦" },
-  { id: 4031, name: "鳳凰" },
-  { id: 4032, name: "奧汀" },
-  { id: 4033, name: "巴哈姆特" },
-  { id: 4034, name: "拉姆" },
-  { id: 4035, name: "泰坦" },
-];
 
-const DEFAULT_DC = "陸行鳥";
+// 換頁時先放幾張佔位卡片，物品資料通常很快就回來，不用放滿一整頁
+const SKELETON_CARDS = 20;
 
 // ===== Helper Functions =====
-function safeNum(v: any, fallback = 0) {
-  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+/**
+ * 背景把某一頁的物品、圖示與價格放進快取，真的翻過去時就能直接顯示。
+ * 只是預先載入，失敗就算了。
+ */
+async function prefetchPage(
+  worldOrDc: string,
+  itemIds: number[],
+  withPrices: boolean,
+  signal: AbortSignal
+) {
+  if (!itemIds.length) return;
+  try {
+    const rows = await fetchItemRowsCached(itemIds, () => {}, signal);
+    if (signal.aborted) return;
+    for (const row of rows) new Image().src = row.iconUrl;
+    if (withPrices) {
+      await fetchPriceMapCached(worldOrDc, itemIds, () => {}, signal);
+    }
+  } catch (e) {
+    if (!signal.aborted) console.error("Prefetch error:", e);
+  }
 }
 
-function parseIconUrl(iconData: any): string {
-  if (!iconData) return "/placeholder.svg?height=64&width=64";
-  const rawPath = iconData.path_hr1 || iconData.path;
-  if (!rawPath) return "/placeholder.svg?height=64&width=64";
-  return `https://v2.xivapi.com/api/asset?path=${encodeURIComponent(
-    rawPath
-  )}&format=png`;
+// useSearchParams 需要 Suspense，否則整頁都得在用戶端才能渲染
+export default function MarketplacePage() {
+  return (
+    <Suspense>
+      <Marketplace />
+    </Suspense>
+  );
 }
 
-export default function MarketplacePage() {
+function Marketplace() {
+  // ===== State: URL (世界、搜尋、頁碼、分類、排序與篩選) =====
+  // URL 是唯一的來源，上一頁 / 下一頁時畫面跟著還原
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const paramsKey = searchParams.toString();
+  const urlState = useMemo(
+    () => parseMarketParams(new URLSearchParams(paramsKey)),
+    [paramsKey]
+  );
+  const {
+    world: selectedWorld,
+    q: committedQuery,
+    page,
+    category: categoryFilter,
+    view: gridView,
+  } = urlState;
+
+  // 篩選欄位每打一個字就會更新，用 replace 才不會塞滿上一頁的紀錄
+  const updateUrl = useCallback(
+    (patch: Partial<MarketUrlState>, { replace = false } = {}) => {
+      const qs = buildMarketParams({ ...urlState, ...patch }).toString();
+      const href = qs ? `${pathname}?${qs}` : pathname;
+      if (replace) router.replace(href, { scroll: false });
+      else router.push(href, { scroll: false });
+    },
+    [urlState, router, pathname]
+  );
+
   // ===== State: IDs Management =====
   const [allMarketableIds, setAllMarketableIds] = useState<number[]>([]);
-  const [displayIds, setDisplayIds] = useState<number[]>([]);
+  const [searchIds, setSearchIds] = useState<number[] | null>(null); // null = 沒有搜尋
+  const [categoryIds, setCategoryIds] = useState<Set<number> | null>(null); // null = 不篩選分類
 
   // ===== State: Local Items (中文翻譯) =====
-  // 這裡與 API 請求脫鉤，單獨管理
-  const [localItems, setLocalItems] = useState<Record<string, LocalItemData>>(
-    {}
-  );
+  const { items: localItems, status: localItemsStatus } = useLocalItemsState();
+
+  // ===== State: World / DC Registry =====
+  const worldRegistry = useWorldRegistry();
+  const tax = useTaxRate(worldRegistry, selectedWorld);
+
+  // ===== State: Categories =====
+  const itemCategories = useItemCategories();
+  const [isCategoryLoading, setIsCategoryLoading] = useState(false);
 
   // ===== State: Page Data =====
   const [pageItems, setPageItems] = useState<MarketItem[]>([]);
@@ -78,477 +155,596 @@ export default function MarketplacePage() {
   // ===== State: Price =====
   const [priceMap, setPriceMap] = useState<Map<number, PriceInfo>>(new Map());
   const [priceLoading, setPriceLoading] = useState(false);
+  // 換頁 / 換伺服器時新的請求一開始就中止舊的，晚回來的舊資料不會寫進 state
+  const nextPageRequest = useLatestRequest();
+  const nextPriceRequest = useLatestRequest();
+  const nextPrefetchRequest = useLatestRequest();
+
+  // ===== State: Sort / Filter =====
+  // 排序與篩選要整個結果集的資料，不只是目前這一頁
+  const [fullPrices, setFullPrices] = useState<Map<number, PriceInfo> | null>(
+    null
+  );
+  const [itemLevels, setItemLevels] = useState<Map<number, number> | null>(
+    null
+  );
+  const levelCacheRef = useRef(new Map<number, number>());
+  const [priceProgress, setPriceProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [levelProgress, setLevelProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
 
   // ===== State: UI =====
-  const [searchQuery, setSearchQuery] = useState("");
+  // 輸入框自己管，停下來之後才寫進 URL
+  const [searchQuery, setSearchQuery] = useState(committedQuery);
+  const pushedQueryRef = useRef(committedQuery);
   const [isSearching, setIsSearching] = useState(false);
-  const [selectedWorld, setSelectedWorld] = useState<string>(DEFAULT_DC);
-  const [page, setPage] = useState(1);
 
   const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+  const selectedScope = getScope(worldRegistry, selectedWorld);
+  const isDCMode = isMultiWorldScope(worldRegistry, selectedWorld);
+
+  // 搜尋結果與分類取交集；兩者都沒有時就是全部可交易物品
+  const displayIds = useMemo(() => {
+    const base = searchIds ?? allMarketableIds;
+    return categoryIds ? base.filter((id) => categoryIds.has(id)) : base;
+  }, [searchIds, allMarketableIds, categoryIds]);
+
+  const wantsFullPrices = needsFullPrices(gridView);
+  const wantsLevels = gridView.sortKey === "itemLevel";
+
+  // 資料還沒抓齊之前先維持原本的順序
+  const visibleIds = useMemo(() => {
+    if (!wantsFullPrices && !wantsLevels) return displayIds;
+    if ((wantsFullPrices && !fullPrices) || (wantsLevels && !itemLevels)) {
+      return displayIds;
+    }
+    return applyGridView(
+      displayIds,
+      gridView,
+      fullPrices ?? new Map(),
+      itemLevels ?? new Map()
+    );
+  }, [
+    displayIds,
+    gridView,
+    wantsFullPrices,
+    wantsLevels,
+    fullPrices,
+    itemLevels,
+  ]);
 
   const totalPages = useMemo(() => {
-    return Math.max(1, Math.ceil(displayIds.length / PAGE_SIZE));
-  }, [displayIds.length]);
+    return Math.max(1, Math.ceil(visibleIds.length / PAGE_SIZE));
+  }, [visibleIds.length]);
 
-  // ===== 1. Initial Load: IDs & Local JSON =====
+  // ===== 1. Initial Load: IDs =====
   useEffect(() => {
-    // 1. 抓取可交易 ID
+    const controller = new AbortController();
     async function initIds() {
       try {
-        const res = await fetch("https://universalis.app/api/v2/marketable");
-        if (!res.ok) throw new Error("Failed to fetch marketable IDs");
-        const ids: number[] = await res.json();
+        const ids = await fetchMarketableIds(controller.signal);
         setAllMarketableIds(ids);
-        setDisplayIds(ids);
-      } catch (e) {
-        console.error("Init IDs Error:", e);
-      }
-    }
-
-    // 2. 抓取本地翻譯檔 (非同步進行，不卡流程)
-    async function loadLocalItems() {
-      try {
-        const res = await fetch("/items.json");
-        if (!res.ok) throw new Error("Failed to load local items");
-        const data = await res.json();
-        setLocalItems(data);
       } catch (e) {
-        console.error("Local items load error:", e);
+        if (!controller.signal.aborted) console.error("Init IDs Error:", e);
       }
     }
 
     initIds();
-    loadLocalItems();
+    return () => controller.abort();
   }, []);
 
   // ===== 2. Search Handler =====
+  // 上一頁 / 下一頁改到 q 的時候，輸入框跟著還原；
+  // 自己剛寫進去的值不算，否則會蓋掉使用者還在打的字
   useEffect(() => {
-    const handler = setTimeout(async () => {
-      if (!searchQuery.trim()) {
-        setDisplayIds(allMarketableIds);
-        setPage(1);
-        return;
-      }
+    if (committedQuery === pushedQueryRef.current) return;
+    pushedQueryRef.current = committedQuery;
+    setSearchQuery(committedQuery);
+  }, [committedQuery]);
 
+  // 停止輸入一段時間後才把關鍵字寫進 URL (同時回到第 1 頁)
+  useEffect(() => {
+    if (searchQuery.trim() === committedQuery.trim()) return;
+    const handler = setTimeout(
+      () => {
+        pushedQueryRef.current = searchQuery.trim();
+        updateUrl({ q: searchQuery, page: 1 });
+      },
+      localItemsStatus === "ready" ? 200 : 600
+    );
+    return () => clearTimeout(handler);
+  }, [searchQuery, committedQuery, localItemsStatus, updateUrl]);
+
+  // 有本地資料就在瀏覽器裡搜 (繁中 / 拼音 / 注音)，沒有才退回 XIVAPI
+  useEffect(() => {
+    if (!committedQuery.trim()) {
+      setSearchIds(null);
+      return;
+    }
+    // 本地資料還在讀的時候先等，避免多打一次 XIVAPI
+    if (localItemsStatus === "loading") return;
+
+    // 關鍵字改變時中止上一次搜尋，晚回來的舊結果不會蓋掉新的
+    const controller = new AbortController();
+    async function runSearch() {
       setIsSearching(true);
       try {
-        const url = `https://v2.xivapi.com/api/search?q=${encodeURIComponent(
-          searchQuery
-        )}&domain=Item`;
-        const res = await fetch(url);
-        const data = await res.json();
-
-        const foundIds = (data.results || [])
-          .map((r: any) => r.row_id || r.id)
-          .filter((id: any) => typeof id === "number");
+        const foundIds =
+          localItemsStatus === "ready"
+            ? searchIndex(await getSearchIndex(localItems), committedQuery)
+            : await searchItemsRemote(committedQuery, controller.signal);
+        if (controller.signal.aborted) return;
 
         const marketSet = new Set(allMarketableIds);
         const validIds = foundIds.filter((id: number) => marketSet.has(id));
 
-        setDisplayIds(validIds);
-        setPage(1);
+        setSearchIds(validIds);
       } catch (e) {
-        console.error("Search Error:", e);
+        if (!controller.signal.aborted) console.error("Search Error:", e);
       } finally {
-        setIsSearching(false);
+        if (!controller.signal.aborted) setIsSearching(false);
       }
-    }, 600);
+    }
 
-    return () => clearTimeout(handler);
-  }, [searchQuery, allMarketableIds]);
+    runSearch();
+    // 被新的關鍵字中止時 finally 不會清掉狀態；下一輪可能直接 return (清空關鍵字、
+    // 等本地資料)，所以在這裡清，否則轉圈圈會一直停著
+    return () => {
+      controller.abort();
+      setIsSearching(false);
+    };
+  }, [committedQuery, allMarketableIds, localItems, localItemsStatus]);
+
+  // ===== 3. Category Filter =====
+  // 用數值當依賴，URL 其他參數變動時不會重新解析分類
+  const { kind: categoryKind, category: categoryId } = categoryFilter;
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsCategoryLoading(true);
+    // 從網址直接帶大類進來時，要等分類表載完才知道底下有哪些小分類；
+    // 分類表載入失敗就停止轉圈圈，改顯示錯誤讓使用者重試
+    if (categoryKind !== null && !itemCategories.categories.length) {
+      if (itemCategories.status === "error") setIsCategoryLoading(false);
+      return;
+    }
+    resolveCategoryIds(
+      { kind: categoryKind, category: categoryId },
+      itemCategories.categories,
+      controller.signal
+    )
+      .then(setCategoryIds)
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error("Category Error:", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsCategoryLoading(false);
+      });
+    return () => controller.abort();
+  }, [
+    categoryKind,
+    categoryId,
+    itemCategories.categories,
+    itemCategories.status,
+  ]);
+
+  // ===== 4. Full Result Set: Prices / Item Levels =====
+  useEffect(() => {
+    setFullPrices(null);
+    if (!wantsFullPrices || !displayIds.length) return;
+
+    const controller = new AbortController();
+    setPriceProgress({ done: 0, total: displayIds.length });
+    scanPriceMapCached(
+      selectedWorld,
+      displayIds,
+      controller.signal,
+      (done, total) => setPriceProgress({ done, total })
+    )
+      .then(setFullPrices)
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error("Full price Error:", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setPriceProgress(null);
+      });
+    return () => {
+      controller.abort();
+      setPriceProgress(null);
+    };
+  }, [wantsFullPrices, displayIds, selectedWorld]);
 
-  // ===== 3. Main Logic: Fetch Page Data =====
-  const fetchPageData = useCallback(async () => {
-    if (displayIds.length === 0) {
+  useEffect(() => {
+    if (!wantsLevels) return;
+
+    // 物品等級不隨伺服器變動，抓過的就留著
+    const cache = levelCacheRef.current;
+    const missing = displayIds.filter((id) => !cache.has(id));
+    if (!missing.length) {
+      setItemLevels(new Map(cache));
+      return;
+    }
+
+    const controller = new AbortController();
+    setItemLevels(null);
+    setLevelProgress({ done: 0, total: missing.length });
+    fetchItemLevels(missing, controller.signal, (done, total) =>
+      setLevelProgress({ done, total })
+    )
+      .then((levels) => {
+        for (const [id, lv] of levels) cache.set(id, lv);
+        setItemLevels(new Map(cache));
+      })
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error("Item level Error:", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLevelProgress(null);
+      });
+    return () => {
+      controller.abort();
+      setLevelProgress(null);
+    };
+  }, [wantsLevels, displayIds]);
+
+  // ===== 5. Main Logic: Fetch Page Data =====
+  useEffect(() => {
+    // 先中止上一頁還沒回來的物品 / 價格請求，舊資料才不會晚一步蓋掉這一頁
+    const signal = nextPageRequest();
+    nextPriceRequest();
+    const prefetchSignal = nextPrefetchRequest();
+
+    if (visibleIds.length === 0) {
       setPageItems([]);
+      setIsPageLoading(false);
+      setPriceLoading(false);
       return;
     }
 
-    setIsPageLoading(true);
-    setPriceMap(new Map());
+    async function fetchPageData() {
+      setIsPageLoading(true);
 
-    try {
-      const start = (page - 1) * PAGE_SIZE;
-      const end = start + PAGE_SIZE;
-      const targetIds = displayIds.slice(start, end);
+      try {
+        const start = (page - 1) * PAGE_SIZE;
+        const end = start + PAGE_SIZE;
+        const targetIds = visibleIds.slice(start, end);
 
-      if (targetIds.length === 0) {
-        setPageItems([]);
-        return;
-      }
+        if (targetIds.length === 0) {
+          setPageItems([]);
+          return;
+        }
 
-      const idStr = targetIds.join(",");
-      const itemRes = await fetch(
-        `https://v2.xivapi.com/api/sheet/Item?rows=${idStr}&fields=Name,Icon`
-      );
-      const itemData = await itemRes.json();
-
-      // 🔥 優化重點：
-      // 這裡只負責存下 API 的原始資料 (英文)，不依賴 localItems。
-      // 這樣即使 items.json 還沒載入，這段邏輯也能先跑完並顯示內容。
-      // 翻譯工作交給 Render 層 (JSX) 處理。
-      const loadedItems: MarketItem[] = (itemData.rows || []).map(
-        (row: any) => ({
-          id: row.row_id,
-          name: row.fields.Name,
-          iconUrl: parseIconUrl(row.fields.Icon),
-        })
-      );
-
-      setPageItems(loadedItems);
-      fetchCurrentPrices(selectedWorld, targetIds);
-    } catch (e) {
-      console.error("Fetch Page Data Error:", e);
-    } finally {
-      setIsPageLoading(false);
+        // 已經有整個結果集的價格就不用再查一次；
+        // 價格與物品名稱互不相依，一起開始查，每批價格回來就先填上
+        let prices: Promise<void> | null = null;
+        if (fullPrices) setPriceMap(fullPrices);
+        else prices = fetchCurrentPrices(selectedWorld, targetIds);
+
+        // 🔥 優化重點：
+        // fetchItemRows 只負責存下 API 的原始資料 (英文)，不依賴 localItems。
+        // 這樣即使 items.json 還沒載入，這段邏輯也能先跑完並顯示內容。
+        // 翻譯工作交給 Render 層 (JSX) 處理。
+        // 快取裡有的先顯示 (回到看過的頁面是瞬間的)，背景再重新驗證
+        await fetchItemRowsCached(
+          targetIds,
+          (rows) => {
+            if (signal.aborted) return;
+            setPageItems(rows);
+            setIsPageLoading(false);
+          },
+          signal
+        );
+        await prices;
+
+        // 這頁都好了才預先載入下一頁，不跟目前這頁搶請求
+        if (!signal.aborted) {
+          prefetchPage(
+            selectedWorld,
+            visibleIds.slice(end, end + PAGE_SIZE),
+            !fullPrices,
+            prefetchSignal
+          );
+        }
+      } catch (e) {
+        if (!signal.aborted) console.error("Fetch Page Data Error:", e);
+      } finally {
+        if (!signal.aborted) setIsPageLoading(false);
+      }
     }
-  }, [displayIds, page, selectedWorld]); // 🔥 這裡移除了 localItems 依賴，避免重複呼叫 API
 
-  useEffect(() => {
     fetchPageData();
-  }, [fetchPageData]);
-
-  // ===== 4. Price Fetcher =====
-  async function fetchCurrentPrices(worldOrDc: string, itemIds: number[]) {
+  }, [visibleIds, page, selectedWorld, fullPrices]); // 🔥 這裡移除了 localItems 依賴，避免重複呼叫 API
+
+  // ===== 6. Price Fetcher =====
+  // 平常先用快取 (整個換掉，不留上一頁 / 其他伺服器的價格)；手動重新整理才略過快取
+  async function fetchCurrentPrices(
+    worldOrDc: string,
+    itemIds: number[],
+    refresh = false
+  ) {
     if (!itemIds.length) return;
+    const signal = nextPriceRequest();
     setPriceLoading(true);
 
     try {
-      const ids = itemIds.join(",");
-      const fields = [
-        "items.itemID",
-        "items.lastUploadTime",
-        "items.listings.pricePerUnit",
-        "items.listings.hq",
-        "items.listings.worldName",
-      ].join(",");
-
-      const url = `https://universalis.app/api/v2/${encodeURIComponent(
-        worldOrDc
-      )}/${ids}?listings=${LISTINGS_PER_ITEM}&entries=0&fields=${encodeURIComponent(
-        fields
-      )}`;
-
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`Universalis Error: ${res.status}`);
-      const data = await res.json();
-
-      const entries = normalizeCurrentDataResponse(data);
-      const nextMap = new Map<number, PriceInfo>();
-
-      for (const it of entries) {
-        const itemId = safeNum(it.itemID || it.itemId || it.item_id);
-        if (!itemId) continue;
-
-        const listings = Array.isArray(it.listings) ? it.listings : [];
-        let minAll = Infinity,
-          minAllW = "";
-        let minNQ = Infinity,
-          minNQW = "";
-        let minHQ = Infinity,
-          minHQW = "";
-
-        for (const l of listings) {
-          const ppu = safeNum(l.pricePerUnit);
-          if (!ppu) continue;
-          const wName = l.worldName || "";
-
-          if (ppu < minAll) {
-            minAll = ppu;
-            minAllW = wName;
-          }
-
-          if (l.hq) {
-            if (ppu < minHQ) {
-              minHQ = ppu;
-              minHQW = wName;
-            }
-          } else {
-            if (ppu < minNQ) {
-              minNQ = ppu;
-              minNQW = wName;
-            }
-          }
-        }
-
-        nextMap.set(itemId, {
-          minAll: minAll === Infinity ? 0 : minAll,
-          minAllWorld: minAllW,
-          minNQ: minNQ === Infinity ? 0 : minNQ,
-          minNQWorld: minNQW,
-          minHQ: minHQ === Infinity ? 0 : minHQ,
-          minHQWorld: minHQW,
-          listingsFetched: listings.length,
-          lastUploadTime: it.lastUploadTime,
-        });
-      }
-      setPriceMap(nextMap);
+      const nextMap = refresh
+        ? await refreshPriceMap(worldOrDc, itemIds, signal)
+        : await fetchPriceMapCached(
+            worldOrDc,
+            itemIds,
+            (prices) => {
+              if (!signal.aborted) setPriceMap(prices);
+            },
+            signal
+          );
+      if (!signal.aborted) setPriceMap(nextMap);
     } catch (e) {
-      console.error("Price fetch error:", e);
+      if (!signal.aborted) console.error("Price fetch error:", e);
     } finally {
-      setPriceLoading(false);
+      if (!signal.aborted) setPriceLoading(false);
     }
   }
 
-  function normalizeCurrentDataResponse(data: any): any[] {
-    if (!data) return [];
-    if (data.items) {
-      return Array.isArray(data.items)
-        ? data.items
-        : Object.values(data.items).filter((v) => typeof v === "object");
-    }
-    if (data.itemID || data.listings) return [data];
-    return [];
-  }
-
   // ===== Handlers =====
   function goToPage(p: number) {
     const next = Math.min(Math.max(1, p), totalPages);
-    setPage(next);
+    updateUrl({ page: next });
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
 
+  const activeCategoryName =
+    categoryFilter.category !== null
+      ? itemCategories.categories.find((c) => c.id === categoryFilter.category)
+          ?.name
+      : itemCategories.kinds.find((k) => k.id === categoryFilter.kind)?.name;
+
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm">
-        <div className="container mx-auto px-4 py-4">
-          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-            <div>
-              <h1 className="text-2xl font-bold text-foreground">
-                FFXIV 市場資料庫
-              </h1>
-              <p className="text-xs text-muted-foreground">陸行鳥區專用版</p>
+    <SidebarProvider>
+      <CategorySidebar
+        data={itemCategories}
+        value={categoryFilter}
+        loading={isCategoryLoading}
+        onChange={(category) => updateUrl({ category, page: 1 })}
+      />
+      <SidebarInset>
+        <div className="min-h-screen bg-background">
+          {/* Header */}
+          <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm">
+            <div className="container mx-auto px-4 py-4">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <SidebarTrigger />
+                  <div>
+                    <h1 className="text-2xl font-bold text-foreground">
+                      FFXIV 市場資料庫
+                    </h1>
+                    <p className="text-xs text-muted-foreground">
+                      {selectedScope
+                        ? [selectedScope.region, selectedScope.dataCenter]
+                            .filter(Boolean)
+                            .join(" / ")
+                        : selectedWorld}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 w-full md:w-auto">
+                  <WorldSelect
+                    registry={worldRegistry}
+                    value={selectedWorld}
+                    onChange={(world) => updateUrl({ world })}
+                  />
+
+                  <div className="relative flex-1 md:w-64">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      className="pl-9 h-10"
+                      placeholder={
+                        localItemsStatus === "ready"
+                          ? "搜尋名稱、拼音、注音或 ID..."
+                          : "搜尋物品 (API)..."
+                      }
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                    />
+                  </div>
+
+                  <CommandPalette
+                    localItems={localItems}
+                    localItemsStatus={localItemsStatus}
+                    worldRegistry={worldRegistry}
+                    selectedWorld={selectedWorld}
+                    onSelectWorld={(world) => updateUrl({ world })}
+                    onRefreshPrices={() =>
+                      fetchCurrentPrices(
+                        selectedWorld,
+                        pageItems.map((it) => it.id),
+                        true
+                      )
+                    }
+                  />
+                  <Link
+                    href="/arbitrage"
+                    className="h-10 px-3 rounded-md border bg-background hover:bg-accent text-sm flex items-center gap-1"
+                  >
+                    <ArrowLeftRight className="h-4 w-4" />
+                    跨服價差
+                  </Link>
+                  <Link
+                    href="/watchlists"
+                    className="h-10 px-3 rounded-md border bg-background hover:bg-accent text-sm flex items-center gap-1"
+                  >
+                    <Bookmark className="h-4 w-4" />
+                    清單
+                  </Link>
+                  <Link
+                    href="/alerts"
+                    className="h-10 px-3 rounded-md border bg-background hover:bg-accent text-sm flex items-center gap-1"
+                  >
+                    <Bell className="h-4 w-4" />
+                    提醒
+                  </Link>
+                  <Link
+                    href="/retainers"
+                    className="h-10 px-3 rounded-md border bg-background hover:bg-accent text-sm flex items-center gap-1"
+                  >
+                    <Users className="h-4 w-4" />
+                    雇員
+                  </Link>
+                  <Link
+                    href="/shopping"
+                    className="h-10 px-3 rounded-md border bg-background hover:bg-accent text-sm flex items-center gap-1"
+                  >
+                    <ShoppingCart className="h-4 w-4" />
+                    採購
+                  </Link>
+                </div>
+              </div>
             </div>
+          </header>
+
+          {/* Main Content */}
+          <div className="container mx-auto px-4 py-6">
+            <div className="flex flex-wrap items-center justify-between mb-6 gap-4 bg-muted/30 p-3 rounded-lg">
+              <div className="flex items-center gap-2 text-sm">
+                {(isSearching || isCategoryLoading) && (
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                )}
+                {!isSearching && !isCategoryLoading && (
+                  <span>
+                    共 <span className="font-bold">{visibleIds.length}</span>{" "}
+                    個結果
+                    {activeCategoryName && ` · ${activeCategoryName}`}
+                    {searchQuery && " (搜尋模式)"}
+                  </span>
+                )}
+                {categoryKind !== null && itemCategories.status === "error" && (
+                  <span className="text-destructive">
+                    分類表載入失敗
+                    <button
+                      className="ml-2 underline hover:no-underline"
+                      onClick={itemCategories.retry}
+                    >
+                      重試
+                    </button>
+                  </span>
+                )}
+              </div>
 
-            <div className="flex flex-wrap items-center gap-2 w-full md:w-auto">
-              <select
-                className="h-10 rounded-md border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-ring"
-                value={selectedWorld}
-                onChange={(e) => setSelectedWorld(e.target.value)}
-              >
-                <option value="陸行鳥">DC: 陸行鳥 (比價)</option>
-                <option disabled>──────────</option>
-                {CN_WORLDS.map((w) => (
-                  <option key={w.id} value={w.name}>
-                    {w.name}
-                  </option>
-                ))}
-              </select>
-
-              <div className="relative flex-1 md:w-64">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  className="pl-9 h-10"
-                  placeholder="搜尋物品 (API)..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+              <div className="flex items-center gap-2">
+                <TaxCitySelect
+                  rates={tax.rates}
+                  className="h-8 rounded border border-input bg-background px-2 text-sm"
                 />
+                <button
+                  className="h-8 px-3 rounded border bg-background hover:bg-accent disabled:opacity-50 text-sm"
+                  disabled={page <= 1 || isPageLoading}
+                  onClick={() => goToPage(page - 1)}
+                >
+                  上一頁
+                </button>
+                <span className="text-sm font-mono">
+                  Page {page} / {totalPages}
+                </span>
+                <button
+                  className="h-8 px-3 rounded border bg-background hover:bg-accent disabled:opacity-50 text-sm"
+                  disabled={page >= totalPages || isPageLoading}
+                  onClick={() => goToPage(page + 1)}
+                >
+                  下一頁
+                </button>
               </div>
             </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <div className="container mx-auto px-4 py-6">
-        <div className="flex flex-wrap items-center justify-between mb-6 gap-4 bg-muted/30 p-3 rounded-lg">
-          <div className="flex items-center gap-2 text-sm">
-            {isSearching && (
-              <Loader2 className="h-4 w-4 animate-spin text-primary" />
-            )}
-            {!isSearching && (
-              <span>
-                共 <span className="font-bold">{displayIds.length}</span> 個結果
-                {searchQuery && " (搜尋模式)"}
-              </span>
-            )}
-          </div>
-
-          <div className="flex items-center gap-2">
-            <button
-              className="h-8 px-3 rounded border bg-background hover:bg-accent disabled:opacity-50 text-sm"
-              disabled={page <= 1 || isPageLoading}
-              onClick={() => goToPage(page - 1)}
-            >
-              上一頁
-            </button>
-            <span className="text-sm font-mono">
-              Page {page} / {totalPages}
-            </span>
-            <button
-              className="h-8 px-3 rounded border bg-background hover:bg-accent disabled:opacity-50 text-sm"
-              disabled={page >= totalPages || isPageLoading}
-              onClick={() => goToPage(page + 1)}
-            >
-              下一頁
-            </button>
-          </div>
-        </div>
 
-        {isPageLoading ? (
-          <div className="flex flex-col items-center justify-center py-20 min-h-100">
-            <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
-            <p className="text-muted-foreground">正在讀取第 {page} 頁資料...</p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-            {pageItems.map((item) => {
-              const p = priceMap.get(item.id);
-              // 🔥 優化重點：在 Render 時即時查表
-              // 當 localItems 更新時，這裡會自動重新計算，讓 UI 瞬間變成中文
-              const translatedName = localItems[String(item.id)]?.name;
-
-              return (
-                <MarketItemCard
-                  key={item.id}
-                  item={item}
-                  price={p}
-                  gilFmt={gilFmt}
-                  loading={priceLoading}
-                  selectedWorld={selectedWorld}
-                  localName={translatedName} // 傳入本地翻譯
-                />
-              );
-            })}
-          </div>
-        )}
+            <LocalItemsNotice status={localItemsStatus} />
+
+            <GridControls
+              view={gridView}
+              progress={
+                priceProgress
+                  ? { label: "正在讀取價格", ...priceProgress }
+                  : levelProgress
+                    ? { label: "正在讀取物品等級", ...levelProgress }
+                    : null
+              }
+              onChange={(view) =>
+                updateUrl({ view, page: 1 }, { replace: true })
+              }
+            />
 
-        {!isPageLoading && pageItems.length === 0 && (
-          <div className="text-center py-20 border-2 border-dashed rounded-xl">
-            <p className="text-muted-foreground text-lg">沒有找到相關物品</p>
-          </div>
-        )}
-
-        {!isPageLoading && pageItems.length > 0 && (
-          <div className="flex justify-center mt-8">
-            <div className="flex items-center gap-2">
-              <button
-                className="h-9 px-4 rounded border bg-background hover:bg-accent disabled:opacity-50"
-                disabled={page <= 1}
-                onClick={() => goToPage(page - 1)}
-              >
-                上一頁
-              </button>
-              <button
-                className="h-9 px-4 rounded border bg-background hover:bg-accent disabled:opacity-50"
-                disabled={page >= totalPages}
-                onClick={() => goToPage(page + 1)}
+            {isPageLoading ? (
+              <div
+                className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4"
+                aria-busy="true"
+                aria-label={`正在讀取第 ${page} 頁資料`}
               >
-                下一頁
-              </button>
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
-
-// ===== Sub Component: Card =====
-function MarketItemCard({
-  item,
-  price,
-  gilFmt,
-  loading,
-  selectedWorld,
-  localName, // 接收翻譯名稱
-}: {
-  item: MarketItem;
-  price?: PriceInfo;
-  gilFmt: Intl.NumberFormat;
-  loading: boolean;
-  selectedWorld: string;
-  localName?: string;
-}) {
-  const isDCMode = selectedWorld === "陸行鳥";
-
-  // 🔥 優先顯示翻譯名稱，若無則顯示 item.name (英文)
-  const displayName = localName || item.name;
-
-  const renderPriceRow = (
-    label: string,
-    value: number,
-    world?: string,
-    className?: string
-  ) => {
-    const hasPrice = value > 0;
-    return (
-      <div
-        className={`flex justify-between items-baseline text-xs ${className}`}
-      >
-        <span className="text-muted-foreground shrink-0">{label}</span>
-        <div className="text-right overflow-hidden">
-          <span
-            className={`font-semibold ${
-              hasPrice ? "text-foreground" : "text-muted-foreground"
-            }`}
-          >
-            {hasPrice ? gilFmt.format(value) : "-"}
-          </span>
-          {isDCMode && hasPrice && world && (
-            <span className="ml-1 text-[10px] text-muted-foreground bg-secondary px-1 py-0.5 rounded">
-              {world}
-            </span>
-          )}
-        </div>
-      </div>
-    );
-  };
+                {Array.from({ length: SKELETON_CARDS }, (_, i) => (
+                  <MarketItemCardSkeleton key={i} />
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                {pageItems.map((item) => {
+                  const p = priceMap.get(item.id);
+                  // 🔥 優化重點：在 Render 時即時查表
+                  // 當 localItems 更新時，這裡會自動重新計算，讓 UI 瞬間變成中文
+                  const translatedName = localItems[String(item.id)]?.name;
+
+                  return (
+                    <MarketItemCard
+                      key={item.id}
+                      item={item}
+                      price={p}
+                      gilFmt={gilFmt}
+                      loading={priceLoading}
+                      selectedWorld={selectedWorld}
+                      isDCMode={isDCMode}
+                      localName={translatedName} // 傳入本地翻譯
+                      staleHours={gridView.staleHours}
+                      quantity={gridView.quantity}
+                      onlyHQ={gridView.filters.onlyHQ}
+                      taxRate={tax.rate}
+                    />
+                  );
+                })}
+              </div>
+            )}
 
-  return (
-    <Card className="group overflow-hidden hover:shadow-lg transition-all duration-200 hover:border-primary/50">
-      <div className="p-3">
-        <div className="flex items-start gap-3 mb-3">
-          <div className="relative w-12 h-12 shrink-0 rounded bg-secondary overflow-hidden border border-border">
-            <img
-              src={item.iconUrl}
-              alt={displayName}
-              className="w-full h-full object-cover"
-              loading="lazy"
-              onError={(e) => {
-                (e.target as HTMLImageElement).src = "/placeholder.svg";
-              }}
-            />
-          </div>
-          <div className="min-w-0">
-            {/* 顯示最終名稱 */}
-            <h3 className="font-medium text-sm text-foreground line-clamp-2 leading-tight">
-              {displayName}
-            </h3>
-            <p className="text-[10px] text-muted-foreground mt-1 font-mono">
-              ID: {item.id}
-            </p>
-          </div>
-        </div>
+            {!isPageLoading && pageItems.length === 0 && (
+              <div className="text-center py-20 border-2 border-dashed rounded-xl">
+                <p className="text-muted-foreground text-lg">
+                  沒有找到相關物品
+                </p>
+              </div>
+            )}
 
-        <div className="bg-muted/50 rounded p-2 space-y-1.5">
-          {renderPriceRow(
-            "NQ",
-            price?.minNQ ?? 0,
-            price?.minNQWorld,
-            price && price.minNQ > 0
-              ? "text-emerald-600 dark:text-emerald-400"
-              : ""
-          )}
-
-          {renderPriceRow(
-            "HQ",
-            price?.minHQ ?? 0,
-            price?.minHQWorld,
-            "text-amber-600 dark:text-amber-400"
-          )}
-
-          <div className="pt-2 mt-1 border-t border-border/50 flex justify-between items-center text-[10px] text-muted-foreground">
-            <span className="flex items-center gap-1">
-              {isDCMode ? <Globe className="h-3 w-3" /> : null}
-              {price ? `庫存: ${price.listingsFetched}` : "讀取中..."}
-            </span>
-            {loading && !price && <Loader2 className="h-3 w-3 animate-spin" />}
+            {!isPageLoading && pageItems.length > 0 && (
+              <div className="flex justify-center mt-8">
+                <div className="flex items-center gap-2">
+                  <button
+                    className="h-9 px-4 rounded border bg-background hover:bg-accent disabled:opacity-50"
+                    disabled={page <= 1}
+                    onClick={() => goToPage(page - 1)}
+                  >
+                    上一頁
+                  </button>
+                  <button
+                    className="h-9 px-4 rounded border bg-background hover:bg-accent disabled:opacity-50"
+                    disabled={page >= totalPages}
+                    onClick={() => goToPage(page + 1)}
+                  >
+                    下一頁
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </div>
-      </div>
-    </Card>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { RetainerTracker } from "@/components/market/retainer-tracker";
+
+export const metadata: Metadata = {
+  title: "雇員追蹤 - FFXIV 市場資料庫",
+};
+
+export default function RetainersPage() {
+  return <RetainerTracker />;
+}
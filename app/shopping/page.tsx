@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { ShoppingList } from "@/components/market/shopping-list";
+
+export const metadata: Metadata = {
+  title: "採購清單 - FFXIV 市場資料庫",
+};
+
+export default function ShoppingPage() {
+  return <ShoppingList />;
+}
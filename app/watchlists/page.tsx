@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { WatchlistView } from "@/components/market/watchlist-view";
+
+export const metadata: Metadata = {
+  title: "我的清單 - FFXIV 市場資料庫",
+};
+
+export default function WatchlistsPage() {
+  return <WatchlistView />;
+}
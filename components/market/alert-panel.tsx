@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { ArrowLeft, Bell, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertRuleForm } from "@/components/market/alert-rule-form";
+import { useLocalItems } from "@/hooks/use-local-items";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { toast } from "@/hooks/use-toast";
+import {
+  ALERT_COMPARATOR_LABELS,
+  ALERT_METRIC_LABELS,
+  addAlertRule,
+  alertStore,
+  checkAlertsNow,
+  deleteAlertRule,
+  updateAlertRule,
+} from "@/lib/market/alerts";
+import { fetchItemRows } from "@/lib/market/items";
+import { DEFAULT_DC } from "@/lib/market/worlds";
+
+export function AlertPanel() {
+  const rules = useLocalStore(alertStore);
+  const localItems = useLocalItems();
+  const [adding, setAdding] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    null
+  );
+
+  const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+
+  // Notification 只存在於瀏覽器，等掛載後再讀，避免 hydration 不一致
+  useEffect(() => {
+    if (typeof Notification !== "undefined") {
+      setPermission(Notification.permission);
+    }
+  }, []);
+
+  // ===== Handlers =====
+  async function requestPermission() {
+    if (typeof Notification === "undefined") return;
+    setPermission(await Notification.requestPermission());
+  }
+
+  async function checkNow() {
+    setChecking(true);
+    try {
+      const fired = await checkAlertsNow();
+      if (!fired.length) toast({ title: "目前沒有新觸發的提醒" });
+    } catch (e) {
+      console.error("Alert check error:", e);
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/"
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              返回列表
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">價格提醒</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            {permission !== null && permission !== "granted" && (
+              <button
+                className="h-9 px-3 rounded border bg-background hover:bg-accent text-sm flex items-center gap-1 disabled:opacity-50"
+                disabled={permission === "denied"}
+                onClick={requestPermission}
+              >
+                <Bell className="h-4 w-4" />
+                {permission === "denied"
+                  ? "瀏覽器通知已封鎖"
+                  : "開啟瀏覽器通知"}
+              </button>
+            )}
+            <button
+              className="h-9 px-3 rounded border bg-background hover:bg-accent text-sm flex items-center gap-1 disabled:opacity-50"
+              disabled={checking || rules.length === 0}
+              onClick={checkNow}
+            >
+              {checking ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              立即檢查
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {/* New Rule */}
+        <Card className="p-4">
+          <AlertRuleForm
+            defaultWorld={DEFAULT_DC}
+            submitting={adding}
+            onSubmit={async (rule) => {
+              setAdding(true);
+              try {
+                const itemName =
+                  localItems[String(rule.itemId)]?.name ||
+                  (await fetchItemRows([rule.itemId]))[0]?.name ||
+                  `#${rule.itemId}`;
+                addAlertRule({ ...rule, itemName });
+              } catch (e) {
+                console.error("Add alert error:", e);
+                addAlertRule({ ...rule, itemName: `#${rule.itemId}` });
+              } finally {
+                setAdding(false);
+              }
+            }}
+          />
+          <p className="mt-2 text-xs text-muted-foreground">
+            每 5 分鐘在背景重新檢查一次，條件從不符合變成符合時才會通知。
+          </p>
+        </Card>
+
+        {/* Rules */}
+        <Card className="p-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>啟用</TableHead>
+                <TableHead>物品</TableHead>
+                <TableHead>伺服器</TableHead>
+                <TableHead>條件</TableHead>
+                <TableHead className="text-right">目前</TableHead>
+                <TableHead>上次觸發</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell>
+                    <Switch
+                      checked={r.enabled}
+                      onCheckedChange={(enabled) =>
+                        updateAlertRule(r.id, { enabled, matched: false })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Link
+                      href={`/item/${r.itemId}?world=${encodeURIComponent(
+                        r.worldOrDc
+                      )}`}
+                      className="hover:underline"
+                    >
+                      {localItems[String(r.itemId)]?.name || r.itemName}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{r.worldOrDc}</TableCell>
+                  <TableCell>
+                    {ALERT_METRIC_LABELS[r.metric]}
+                    {ALERT_COMPARATOR_LABELS[r.comparator]}{" "}
+                    <span className="font-mono">
+                      {gilFmt.format(r.threshold)}
+                    </span>
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-mono ${
+                      r.matched ? "text-emerald-600 dark:text-emerald-400" : ""
+                    }`}
+                  >
+                    {r.lastValue !== undefined
+                      ? gilFmt.format(r.lastValue)
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {r.lastTriggeredAt
+                      ? format(r.lastTriggeredAt, "MM/dd HH:mm")
+                      : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <button
+                      className="text-muted-foreground hover:text-destructive"
+                      title="刪除"
+                      onClick={() => deleteAlertRule(r.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell
+                    colSpan={7}
+                    className="text-center text-muted-foreground py-8"
+                  >
+                    還沒有提醒規則
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+"use client";
+
+import { useAlertPoller } from "@/hooks/use-alert-poller";
+
+export function AlertPoller() {
+  useAlertPoller();
+  return null;
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { WorldSelect } from "@/components/market/world-select";
+import { useWorldRegistry } from "@/hooks/use-world-registry";
+import {
+  ALERT_COMPARATOR_LABELS,
+  ALERT_METRIC_LABELS,
+  type AlertComparator,
+  type AlertMetric,
+  type NewAlertRule,
+} from "@/lib/market/alerts";
+
+const selectClass =
+  "h-10 rounded-md border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-ring";
+
+/**
+ * 新增提醒規則。從物品卡片開啟時會帶入物品，
+ * 在管理面板則可以直接輸入物品 ID。
+ */
+export function AlertRuleForm({
+  itemId: fixedItemId,
+  defaultWorld,
+  submitting,
+  onSubmit,
+}: {
+  itemId?: number;
+  defaultWorld: string;
+  submitting?: boolean;
+  onSubmit: (rule: Omit<NewAlertRule, "itemName">) => void;
+}) {
+  const worldRegistry = useWorldRegistry();
+  const [itemId, setItemId] = useState(fixedItemId ? String(fixedItemId) : "");
+  const [worldOrDc, setWorldOrDc] = useState(defaultWorld);
+  const [metric, setMetric] = useState<AlertMetric>("minHQ");
+  const [comparator, setComparator] = useState<AlertComparator>("below");
+  const [threshold, setThreshold] = useState("");
+
+  const parsedId = Number(itemId);
+  const parsedThreshold = Number(threshold);
+  const valid =
+    Number.isInteger(parsedId) &&
+    parsedId > 0 &&
+    threshold !== "" &&
+    Number.isFinite(parsedThreshold) &&
+    parsedThreshold >= 0;
+
+  return (
+    <form
+      className="flex flex-wrap items-end gap-2 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!valid) return;
+        onSubmit({
+          itemId: parsedId,
+          worldOrDc,
+          metric,
+          comparator,
+          threshold: parsedThreshold,
+        });
+        setThreshold("");
+      }}
+    >
+      {!fixedItemId && (
+        <Input
+          className="h-10 w-28"
+          inputMode="numeric"
+          placeholder="物品 ID"
+          value={itemId}
+          onChange={(e) => setItemId(e.target.value)}
+        />
+      )}
+      <WorldSelect
+        registry={worldRegistry}
+        value={worldOrDc}
+        onChange={setWorldOrDc}
+      />
+      <select
+        className={selectClass}
+        value={metric}
+        onChange={(e) => setMetric(e.target.value as AlertMetric)}
+      >
+        {Object.entries(ALERT_METRIC_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <select
+        className={selectClass}
+        value={comparator}
+        onChange={(e) => setComparator(e.target.value as AlertComparator)}
+      >
+        {Object.entries(ALERT_COMPARATOR_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <Input
+        className="h-10 w-32"
+        type="number"
+        min={0}
+        placeholder={metric === "listings" ? "筆數" : "gil"}
+        value={threshold}
+        onChange={(e) => setThreshold(e.target.value)}
+      />
+      <button
+        type="submit"
+        className="h-10 px-4 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        disabled={!valid || submitting}
+      >
+        新增提醒
+      </button>
+    </form>
+  );
+}
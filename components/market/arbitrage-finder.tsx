@@ -0,0 +1,421 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TaxCitySelect } from "@/components/market/tax-city-select";
+import { useLocalItems } from "@/hooks/use-local-items";
+import { useTaxRate } from "@/hooks/use-tax-rate";
+import { useWorldRegistry } from "@/hooks/use-world-registry";
+import {
+  scanArbitrageBatch,
+  type ArbitrageOpportunity,
+} from "@/lib/market/arbitrage";
+import { CITY_LABELS } from "@/lib/market/tax";
+import {
+  fetchItemRows,
+  fetchMarketableIds,
+  type MarketItem,
+} from "@/lib/market/items";
+import {
+  dataCentersInRegion,
+  getScope,
+  worldsInDataCenter,
+} from "@/lib/market/worlds";
+
+// ===== Config / Constants =====
+const BATCH_SIZE = 100;
+const SCAN_LIMITS = [500, 2000, 5000, 0]; // 0 = 全部
+const MAX_ROWS = 200;
+const DEFAULT_HOME_WORLD = "伊弗利特";
+
+type SortKey = "netProfit" | "margin" | "salesPerDay" | "buyPrice";
+
+export function ArbitrageFinder() {
+  const localItems = useLocalItems();
+  const worldRegistry = useWorldRegistry();
+
+  // ===== State: Scan Settings =====
+  const [homeWorld, setHomeWorld] = useState(DEFAULT_HOME_WORLD);
+  const [scanLimit, setScanLimit] = useState(SCAN_LIMITS[0]);
+  const [minVelocity, setMinVelocity] = useState(1);
+  const [minProfit, setMinProfit] = useState(1000);
+
+  // ===== State: Scan Progress =====
+  const [results, setResults] = useState<ArbitrageOpportunity[]>([]);
+  const [scanned, setScanned] = useState(0);
+  const [scanTotal, setScanTotal] = useState(0);
+  const [isScanning, setIsScanning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // ===== State: Table =====
+  const [sortKey, setSortKey] = useState<SortKey>("netProfit");
+  const [sortDesc, setSortDesc] = useState(true);
+  const [itemRows, setItemRows] = useState<Map<number, MarketItem>>(new Map());
+
+  const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+  const dataCenter = getScope(worldRegistry, homeWorld)?.dataCenter;
+  const tax = useTaxRate(worldRegistry, homeWorld);
+  // 稅率還沒載完時 tax.rate 是預設的 5%，這時掃出來的利潤會算錯
+  const taxReady = tax.rates !== null;
+
+  // 離開頁面時停止掃描
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // ===== Scanner =====
+  async function startScan() {
+    if (!dataCenter || !taxReady) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsScanning(true);
+    setResults([]);
+    setScanned(0);
+
+    try {
+      const allIds = await fetchMarketableIds(controller.signal);
+      const ids = scanLimit ? allIds.slice(0, scanLimit) : allIds;
+      setScanTotal(ids.length);
+
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        if (controller.signal.aborted) return;
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        try {
+          const found = await scanArbitrageBatch(
+            homeWorld,
+            dataCenter,
+            batch,
+            tax.rate,
+            controller.signal
+          );
+          setResults((prev) => prev.concat(found));
+        } catch (e) {
+          if (controller.signal.aborted) return;
+          console.error("Arbitrage batch error:", e);
+        }
+        setScanned(Math.min(i + BATCH_SIZE, ids.length));
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) console.error("Arbitrage scan error:", e);
+    } finally {
+      if (abortRef.current === controller) setIsScanning(false);
+    }
+  }
+
+  function stopScan() {
+    abortRef.current?.abort();
+    setIsScanning(false);
+  }
+
+  // ===== Derived: Filter & Sort =====
+  const visibleRows = useMemo(() => {
+    const dir = sortDesc ? -1 : 1;
+    return results
+      .filter((r) => r.salesPerDay >= minVelocity && r.netProfit >= minProfit)
+      .sort((a, b) => (a[sortKey] - b[sortKey]) * dir)
+      .slice(0, MAX_ROWS);
+  }, [results, minVelocity, minProfit, sortKey, sortDesc]);
+
+  // 只替畫面上的列補名稱與圖示；已請求過的 ID 記在 ref 裡避免重複抓，
+  // 失敗或被中止的再從 ref 拿掉，下次畫面更新時會重抓
+  const requestedRowsRef = useRef<Set<number>>(new Set());
+  useEffect(() => {
+    const requested = requestedRowsRef.current;
+    const missing = Array.from(
+      new Set(
+        visibleRows.map((r) => r.itemId).filter((id) => !requested.has(id))
+      )
+    );
+    if (!missing.length) return;
+    missing.forEach((id) => requested.add(id));
+
+    const controller = new AbortController();
+    const pending = new Set(missing);
+    (async () => {
+      for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+        const batch = missing.slice(i, i + BATCH_SIZE);
+        try {
+          const rows = await fetchItemRows(batch, controller.signal);
+          batch.forEach((id) => pending.delete(id));
+          setItemRows((prev) => {
+            const next = new Map(prev);
+            for (const row of rows) next.set(row.id, row);
+            return next;
+          });
+        } catch (e) {
+          if (controller.signal.aborted) return;
+          console.error("Item rows error:", e);
+          batch.forEach((id) => {
+            pending.delete(id);
+            requested.delete(id);
+          });
+        }
+      }
+    })();
+    // 掃描中列表一直變，舊的請求中止後，還沒抓到的 ID 要馬上放回去給下一輪
+    return () => {
+      controller.abort();
+      pending.forEach((id) => requested.delete(id));
+    };
+  }, [visibleRows]);
+
+  function toggleSort(key: SortKey) {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(true);
+    }
+  }
+
+  const renderSortHead = (key: SortKey, label: string) => (
+    <TableHead className="text-right">
+      <button
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => toggleSort(key)}
+      >
+        {label}
+        {sortKey === key &&
+          (sortDesc ? (
+            <ArrowDown className="h-3 w-3" />
+          ) : (
+            <ArrowUp className="h-3 w-3" />
+          ))}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/"
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              返回列表
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">跨服價差</h1>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            在其他伺服器買入 (加{CITY_LABELS[tax.city]}{" "}
+            {Math.round(tax.rate * 100)}% 稅)、回母服賣出
+          </p>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {/* Scan Settings */}
+        <Card className="p-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-4 text-sm">
+            <label className="space-y-1">
+              <span className="block text-muted-foreground">母服</span>
+              <select
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-ring"
+                value={homeWorld}
+                disabled={isScanning}
+                onChange={(e) => setHomeWorld(e.target.value)}
+              >
+                {worldRegistry.regions.map((region) =>
+                  dataCentersInRegion(worldRegistry, region).map((dc) => (
+                    <optgroup key={dc.name} label={`${region} / ${dc.name}`}>
+                      {worldsInDataCenter(worldRegistry, dc.name).map((w) => (
+                        <option key={w.id} value={w.name}>
+                          {w.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))
+                )}
+              </select>
+            </label>
+
+            <label className="space-y-1">
+              <span className="block text-muted-foreground">上架城市</span>
+              <TaxCitySelect rates={tax.rates} />
+            </label>
+
+            <label className="space-y-1">
+              <span className="block text-muted-foreground">掃描數量</span>
+              <select
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-ring"
+                value={scanLimit}
+                disabled={isScanning}
+                onChange={(e) => setScanLimit(Number(e.target.value))}
+              >
+                {SCAN_LIMITS.map((n) => (
+                  <option key={n} value={n}>
+                    {n ? `前 ${n} 個` : "全部可交易物品"}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1">
+              <span className="block text-muted-foreground">
+                最低銷售速度 (個/天)
+              </span>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                className="h-10 w-32"
+                value={minVelocity}
+                onChange={(e) => setMinVelocity(Number(e.target.value) || 0)}
+              />
+            </label>
+
+            <label className="space-y-1">
+              <span className="block text-muted-foreground">最低淨利</span>
+              <Input
+                type="number"
+                min={0}
+                step={100}
+                className="h-10 w-32"
+                value={minProfit}
+                onChange={(e) => setMinProfit(Number(e.target.value) || 0)}
+              />
+            </label>
+
+            {isScanning ? (
+              <button
+                className="h-10 px-4 rounded border bg-background hover:bg-accent"
+                onClick={stopScan}
+              >
+                停止
+              </button>
+            ) : (
+              <button
+                className="h-10 px-4 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                disabled={!dataCenter || !taxReady}
+                onClick={startScan}
+              >
+                {dataCenter && !taxReady ? (
+                  <span className="flex items-center gap-1">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    讀取稅率中
+                  </span>
+                ) : (
+                  <>開始掃描 {dataCenter && `(${dataCenter})`}</>
+                )}
+              </button>
+            )}
+          </div>
+
+          {scanTotal > 0 && (
+            <div className="space-y-1">
+              <Progress value={(scanned / scanTotal) * 100} />
+              <p className="text-xs text-muted-foreground">
+                已掃描 {scanned} / {scanTotal} 個物品，找到 {results.length}{" "}
+                筆價差
+              </p>
+            </div>
+          )}
+        </Card>
+
+        {/* Results */}
+        <Card className="p-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>物品</TableHead>
+                <TableHead>品質</TableHead>
+                <TableHead>買入伺服器</TableHead>
+                {renderSortHead("buyPrice", "買入價")}
+                <TableHead className="text-right">母服賣價</TableHead>
+                {renderSortHead("netProfit", "淨利")}
+                {renderSortHead("margin", "利潤率")}
+                {renderSortHead("salesPerDay", "銷售/天")}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map((r) => {
+                const row = itemRows.get(r.itemId);
+                const name =
+                  localItems[String(r.itemId)]?.name ||
+                  row?.name ||
+                  `#${r.itemId}`;
+                return (
+                  <TableRow key={`${r.itemId}-${r.hq}`}>
+                    <TableCell>
+                      <Link
+                        href={`/item/${r.itemId}?world=${encodeURIComponent(
+                          dataCenter || homeWorld
+                        )}`}
+                        className="flex items-center gap-2 hover:underline"
+                      >
+                        {row && (
+                          <img
+                            src={row.iconUrl}
+                            alt={name}
+                            className="w-6 h-6 rounded"
+                            loading="lazy"
+                          />
+                        )}
+                        {name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {r.hq ? (
+                        <span className="text-amber-600 dark:text-amber-400">
+                          HQ
+                        </span>
+                      ) : (
+                        "NQ"
+                      )}
+                    </TableCell>
+                    <TableCell>{r.buyWorld}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {gilFmt.format(r.buyPrice)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {gilFmt.format(r.sellPrice)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-emerald-600 dark:text-emerald-400">
+                      {gilFmt.format(r.netProfit)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {(r.margin * 100).toFixed(0)}%
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {r.salesPerDay.toFixed(1)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {visibleRows.length === 0 && (
+                <TableRow>
+                  <TableCell
+                    colSpan={8}
+                    className="text-center text-muted-foreground py-8"
+                  >
+                    {isScanning ? (
+                      <Loader2 className="h-5 w-5 animate-spin inline" />
+                    ) : (
+                      "尚無符合條件的價差"
+                    )}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      </div>
+    </div>
+  );
+}
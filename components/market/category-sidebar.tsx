@@ -0,0 +1,119 @@
+"use client";
+
+import { LayoutGrid, Loader2 } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+} from "@/components/ui/sidebar";
+import type { ItemCategories } from "@/hooks/use-item-categories";
+import { ALL_CATEGORIES, type CategoryFilter } from "@/lib/market/categories";
+
+/**
+ * 左側分類欄：上層是 itemKinds.json 的七大類，
+ * 展開後列出該類底下的 ItemUICategory。
+ */
+export function CategorySidebar({
+  data,
+  value,
+  loading,
+  onChange,
+}: {
+  data: ItemCategories;
+  value: CategoryFilter;
+  loading?: boolean;
+  onChange: (next: CategoryFilter) => void;
+}) {
+  const { kinds, categories } = data;
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="px-4 py-3 border-b">
+        <span className="flex items-center gap-2 text-sm font-semibold">
+          分類
+          {loading && <Loader2 className="h-3 w-3 animate-spin" />}
+        </span>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>物品類型</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  isActive={value.kind === null}
+                  onClick={() => onChange(ALL_CATEGORIES)}
+                >
+                  <LayoutGrid />
+                  <span>全部</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+
+              {kinds.length === 0 &&
+                Array.from({ length: 7 }).map((_, i) => (
+                  <SidebarMenuItem key={i}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+
+              {kinds.map((kind) => {
+                const active = value.kind === kind.id;
+                const subs = categories.filter((c) => c.kind === kind.id);
+                return (
+                  <SidebarMenuItem key={kind.id}>
+                    <SidebarMenuButton
+                      isActive={active && value.category === null}
+                      onClick={() =>
+                        onChange({ kind: kind.id, category: null })
+                      }
+                    >
+                      <span>{kind.name}</span>
+                    </SidebarMenuButton>
+                    {active && subs.length > 0 && (
+                      <SidebarMenuSub>
+                        {subs.map((c) => (
+                          <SidebarMenuSubItem key={c.id}>
+                            <SidebarMenuSubButton
+                              asChild
+                              size="sm"
+                              isActive={value.category === c.id}
+                            >
+                              <button
+                                className="w-full"
+                                onClick={() =>
+                                  onChange({ kind: kind.id, category: c.id })
+                                }
+                              >
+                                <img
+                                  src={c.iconUrl}
+                                  alt=""
+                                  className="h-4 w-4"
+                                  loading="lazy"
+                                />
+                                <span>{c.name}</span>
+                              </button>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    )}
+                  </SidebarMenuItem>
+                );
+              })}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
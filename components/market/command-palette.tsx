@@ -0,0 +1,344 @@
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import {
+  ArrowLeft,
+  ArrowLeftRight,
+  Bell,
+  Bookmark,
+  Command,
+  Copy,
+  ExternalLink,
+  Globe,
+  Hash,
+  History,
+  RefreshCw,
+  ShoppingCart,
+  Users,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { Kbd } from "@/components/ui/kbd";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { toast } from "@/hooks/use-toast";
+import { fetchItemRows, searchItemsRemote } from "@/lib/market/items";
+import type { LocalItemData, LocalItemsStatus } from "@/lib/market/local-items";
+import {
+  recentItemStore,
+  rememberRecentItem,
+  type RecentItem,
+} from "@/lib/market/recent-items";
+import { getSearchIndex, searchIndex } from "@/lib/market/search-index";
+import type { WorldRegistry } from "@/lib/market/worlds";
+import { iconUrl } from "@/lib/xivapi/client";
+
+// ===== Config / Constants =====
+const MAX_RESULTS = 20;
+
+const SCOPE_KIND_LABELS = {
+  region: "區域",
+  dc: "資料中心",
+  world: "伺服器",
+} as const;
+
+/**
+ * Ctrl+K / ⌘K 指令面板。選了物品之後會進到第二層，
+ * 可以開啟物品頁或複製名稱 / ID。
+ */
+export function CommandPalette({
+  localItems,
+  localItemsStatus,
+  worldRegistry,
+  selectedWorld,
+  onSelectWorld,
+  onRefreshPrices,
+}: {
+  localItems: Record<string, LocalItemData>;
+  localItemsStatus: LocalItemsStatus;
+  worldRegistry: WorldRegistry;
+  selectedWorld: string;
+  onSelectWorld: (worldOrDc: string) => void;
+  onRefreshPrices: () => void;
+}) {
+  const router = useRouter();
+  const recentItems = useLocalStore(recentItemStore);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<RecentItem[]>([]);
+  const [activeItem, setActiveItem] = useState<RecentItem | null>(null);
+
+  // ===== Shortcut =====
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setOpen((o) => !o);
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // ===== Item Search =====
+  useEffect(() => {
+    const q = query.trim();
+    if (!q || activeItem) {
+      setResults([]);
+      return;
+    }
+
+    // 打字打得快時中止上一次的遠端搜尋，舊結果不會蓋掉新的
+    const controller = new AbortController();
+    const useLocal = localItemsStatus === "ready";
+    const handler = setTimeout(
+      async () => {
+        try {
+          let items: RecentItem[];
+          if (useLocal) {
+            const ids = searchIndex(await getSearchIndex(localItems), q);
+            items = ids.slice(0, MAX_RESULTS).map((id) => ({
+              id,
+              name: localItems[String(id)]?.name || `#${id}`,
+              iconUrl: iconUrl({ path: localItems[String(id)]?.icon }),
+            }));
+          } else {
+            const ids = await searchItemsRemote(q, controller.signal);
+            items = await fetchItemRows(
+              ids.slice(0, MAX_RESULTS),
+              controller.signal
+            );
+          }
+          if (!controller.signal.aborted) setResults(items);
+        } catch (e) {
+          if (!controller.signal.aborted)
+            console.error("Command search error:", e);
+        }
+      },
+      useLocal ? 100 : 400
+    );
+
+    return () => {
+      controller.abort();
+      clearTimeout(handler);
+    };
+  }, [query, activeItem, localItems, localItemsStatus]);
+
+  // ===== Handlers =====
+  function close() {
+    setOpen(false);
+    setQuery("");
+    setActiveItem(null);
+  }
+
+  function pickItem(item: RecentItem) {
+    rememberRecentItem(item);
+    setActiveItem({ ...item, name: displayName(item) });
+    setQuery("");
+  }
+
+  function run(action: () => void) {
+    action();
+    close();
+  }
+
+  async function copyText(text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "已複製", description: text });
+    } catch (e) {
+      console.error("Clipboard error:", e);
+      toast({ title: "複製失敗" });
+    }
+  }
+
+  // 最近的物品可能是用英文名稱記下來的，顯示時再查一次本地翻譯
+  function displayName(item: RecentItem) {
+    return localItems[String(item.id)]?.name || item.name;
+  }
+
+  function renderItem(item: RecentItem, icon?: ReactNode) {
+    return (
+      <CommandItem
+        key={item.id}
+        value={`item-${item.id}`}
+        forceMount
+        onSelect={() => pickItem(item)}
+      >
+        {icon ??
+          (item.iconUrl ? (
+            <img src={item.iconUrl} alt="" className="h-5 w-5" />
+          ) : (
+            <Hash />
+          ))}
+        <span className="truncate">{displayName(item)}</span>
+        <CommandShortcut>#{item.id}</CommandShortcut>
+      </CommandItem>
+    );
+  }
+
+  return (
+    <>
+      <button
+        className="h-10 px-3 rounded-md border bg-background hover:bg-accent text-sm flex items-center gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Command className="h-4 w-4" />
+        指令
+        <Kbd>Ctrl K</Kbd>
+      </button>
+      <CommandDialog
+        open={open}
+        onOpenChange={(o) => (o ? setOpen(true) : close())}
+        title="指令面板"
+        description="搜尋物品、切換伺服器或執行動作"
+      >
+        <CommandInput
+          placeholder={
+            activeItem ? `${activeItem.name}…` : "搜尋物品、伺服器或動作..."
+          }
+          value={query}
+          onValueChange={setQuery}
+          onKeyDown={(e) => {
+            if (e.key === "Backspace" && !query && activeItem) {
+              e.preventDefault();
+              setActiveItem(null);
+            }
+          }}
+        />
+        <CommandList>
+          <CommandEmpty>沒有符合的結果</CommandEmpty>
+
+          {activeItem ? (
+            <CommandGroup heading={activeItem.name}>
+              <CommandItem
+                onSelect={() =>
+                  run(() =>
+                    router.push(
+                      `/item/${activeItem.id}?world=${encodeURIComponent(
+                        selectedWorld
+                      )}`
+                    )
+                  )
+                }
+              >
+                <ExternalLink />
+                開啟物品頁
+              </CommandItem>
+              <CommandItem
+                onSelect={() => run(() => copyText(activeItem.name))}
+              >
+                <Copy />
+                複製物品名稱
+              </CommandItem>
+              {localItems[String(activeItem.id)] && (
+                <CommandItem
+                  onSelect={() =>
+                    run(() =>
+                      copyText(localItems[String(activeItem.id)].names.en)
+                    )
+                  }
+                >
+                  <Copy />
+                  複製英文名稱
+                </CommandItem>
+              )}
+              <CommandItem
+                onSelect={() => run(() => copyText(String(activeItem.id)))}
+              >
+                <Hash />
+                複製物品 ID
+              </CommandItem>
+              <CommandItem onSelect={() => setActiveItem(null)}>
+                <ArrowLeft />
+                返回
+              </CommandItem>
+            </CommandGroup>
+          ) : (
+            <>
+              {query.trim()
+                ? results.length > 0 && (
+                    <CommandGroup heading="物品" forceMount>
+                      {results.map((item) => renderItem(item))}
+                    </CommandGroup>
+                  )
+                : recentItems.length > 0 && (
+                    <CommandGroup heading="最近的物品">
+                      {recentItems.map((item) => renderItem(item, <History />))}
+                    </CommandGroup>
+                  )}
+
+              <CommandGroup heading="動作">
+                <CommandItem onSelect={() => run(onRefreshPrices)}>
+                  <RefreshCw />
+                  重新整理價格
+                </CommandItem>
+                <CommandItem
+                  onSelect={() => run(() => router.push("/watchlists"))}
+                >
+                  <Bookmark />
+                  開啟我的清單
+                </CommandItem>
+                <CommandItem onSelect={() => run(() => router.push("/alerts"))}>
+                  <Bell />
+                  開啟價格提醒
+                </CommandItem>
+                <CommandItem
+                  onSelect={() => run(() => router.push("/arbitrage"))}
+                >
+                  <ArrowLeftRight />
+                  開啟跨服價差
+                </CommandItem>
+                <CommandItem
+                  onSelect={() => run(() => router.push("/retainers"))}
+                >
+                  <Users />
+                  開啟雇員追蹤
+                </CommandItem>
+                <CommandItem
+                  onSelect={() => run(() => router.push("/shopping"))}
+                >
+                  <ShoppingCart />
+                  開啟採購清單
+                </CommandItem>
+              </CommandGroup>
+
+              <CommandSeparator />
+
+              <CommandGroup heading="切換伺服器">
+                {Array.from(worldRegistry.scopes.values()).map((scope) => (
+                  <CommandItem
+                    key={scope.name}
+                    value={`world-${scope.name}`}
+                    keywords={[
+                      scope.name,
+                      scope.region,
+                      scope.dataCenter ?? "",
+                    ]}
+                    onSelect={() => run(() => onSelectWorld(scope.name))}
+                  >
+                    <Globe />
+                    {scope.name}
+                    <CommandShortcut>
+                      {scope.name === selectedWorld
+                        ? "目前"
+                        : SCOPE_KIND_LABELS[scope.kind]}
+                    </CommandShortcut>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { STALE_MODE_LABELS, type StaleMode } from "@/lib/market/freshness";
+import { QUANTITY_PRESETS } from "@/lib/market/quantity";
+import {
+  DEFAULT_GRID_VIEW,
+  GRID_SORT_LABELS,
+  hasActiveFilters,
+  parseDecimal,
+  parseWholeNumber,
+  type GridFilters,
+  type GridSortKey,
+  type GridView,
+} from "@/lib/market/grid-view";
+
+const selectClass =
+  "h-9 rounded-md border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-ring";
+
+/**
+ * 列表上方的排序與數值篩選。
+ * `progress` 有值時代表正在為整個結果集抓價格 / 等級。
+ */
+export function GridControls({
+  view,
+  progress,
+  onChange,
+}: {
+  view: GridView;
+  progress: { label: string; done: number; total: number } | null;
+  onChange: (next: GridView) => void;
+}) {
+  const { sortKey, sortDesc, filters, staleMode, staleHours, quantity } = view;
+  const isDefault =
+    sortKey === "default" &&
+    quantity === DEFAULT_GRID_VIEW.quantity &&
+    !hasActiveFilters(filters) &&
+    staleMode === DEFAULT_GRID_VIEW.staleMode &&
+    staleHours === DEFAULT_GRID_VIEW.staleHours;
+
+  function setFilter<K extends keyof GridFilters>(key: K, v: GridFilters[K]) {
+    onChange({ ...view, filters: { ...filters, [key]: v } });
+  }
+
+  return (
+    <div className="mb-6 space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <div className="flex items-center gap-1">
+          <select
+            className={selectClass}
+            value={sortKey}
+            onChange={(e) =>
+              onChange({ ...view, sortKey: e.target.value as GridSortKey })
+            }
+          >
+            {Object.entries(GRID_SORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label.replace("N", String(quantity))}
+              </option>
+            ))}
+          </select>
+          <button
+            className="h-9 w-9 rounded border bg-background hover:bg-accent flex items-center justify-center disabled:opacity-50"
+            disabled={sortKey === "default"}
+            title={sortDesc ? "由高到低" : "由低到高"}
+            onClick={() => onChange({ ...view, sortDesc: !sortDesc })}
+          >
+            {sortDesc ? (
+              <ArrowDown className="h-4 w-4" />
+            ) : (
+              <ArrowUp className="h-4 w-4" />
+            )}
+          </button>
+        </div>
+
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">買</span>
+          <Input
+            type="number"
+            min={1}
+            className="h-9 w-20"
+            list="grid-quantity-presets"
+            title="價格改看最便宜 N 個的平均"
+            value={quantity}
+            onChange={(e) => {
+              const n = parseWholeNumber(e.target.value, 1);
+              if (n !== null) onChange({ ...view, quantity: n });
+            }}
+          />
+          <datalist id="grid-quantity-presets">
+            {QUANTITY_PRESETS.map((n) => (
+              <option key={n} value={n} />
+            ))}
+          </datalist>
+          <span className="text-muted-foreground">個</span>
+        </label>
+
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min={0}
+            className="h-9 w-28"
+            placeholder="最低價"
+            value={filters.minPrice ?? ""}
+            onChange={(e) =>
+              setFilter("minPrice", parseWholeNumber(e.target.value))
+            }
+          />
+          <span className="text-muted-foreground">~</span>
+          <Input
+            type="number"
+            min={0}
+            className="h-9 w-28"
+            placeholder="最高價"
+            value={filters.maxPrice ?? ""}
+            onChange={(e) =>
+              setFilter("maxPrice", parseWholeNumber(e.target.value))
+            }
+          />
+        </div>
+
+        <Input
+          type="number"
+          min={0}
+          className="h-9 w-28"
+          placeholder="最少上架數"
+          value={filters.minListings ?? ""}
+          onChange={(e) =>
+            setFilter("minListings", parseWholeNumber(e.target.value))
+          }
+        />
+
+        <Input
+          type="number"
+          min={0}
+          step={0.5}
+          className="h-9 w-32"
+          placeholder="最低每日銷量"
+          value={filters.minSalesPerDay ?? ""}
+          onChange={(e) =>
+            setFilter("minSalesPerDay", parseDecimal(e.target.value))
+          }
+        />
+
+        <label className="flex items-center gap-2">
+          <Switch
+            checked={filters.onlyHQ}
+            onCheckedChange={(v) => setFilter("onlyHQ", v)}
+          />
+          只看有 HQ
+        </label>
+
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">超過</span>
+          <Input
+            type="number"
+            min={1}
+            className="h-9 w-20"
+            title="最後上傳超過幾小時算過舊"
+            value={staleHours}
+            onChange={(e) => {
+              const n = parseWholeNumber(e.target.value, 1);
+              if (n !== null) onChange({ ...view, staleHours: n });
+            }}
+          />
+          <span className="text-muted-foreground">小時的過舊資料</span>
+          <select
+            className={selectClass}
+            value={staleMode}
+            onChange={(e) =>
+              onChange({ ...view, staleMode: e.target.value as StaleMode })
+            }
+          >
+            {Object.entries(STALE_MODE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {!isDefault && (
+          <button
+            className="h-9 px-3 rounded border bg-background hover:bg-accent"
+            onClick={() => onChange(DEFAULT_GRID_VIEW)}
+          >
+            清除
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress
+            value={(progress.done / Math.max(progress.total, 1)) * 100}
+          />
+          <p className="text-xs text-muted-foreground">
+            {progress.label} {progress.done} / {progress.total}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,457 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2, UserPlus } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PriceHistoryChart } from "@/components/market/price-history-chart";
+import { RecipeCalculator } from "@/components/market/recipe-calculator";
+import { TaxCitySelect } from "@/components/market/tax-city-select";
+import { WorldSelect } from "@/components/market/world-select";
+import { useLocalItems } from "@/hooks/use-local-items";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { useTaxRate } from "@/hooks/use-tax-rate";
+import { toast } from "@/hooks/use-toast";
+import { useWorldRegistry } from "@/hooks/use-world-registry";
+import {
+  FRESHNESS_CLASSES,
+  freshnessLevel,
+  formatUploadAge,
+} from "@/lib/market/freshness";
+import { fetchItemMeta, type ItemMeta } from "@/lib/market/items";
+import { fetchItemMarket, type ItemMarket } from "@/lib/market/listings";
+import { rememberRecentItem } from "@/lib/market/recent-items";
+import {
+  addRetainer,
+  isMyRetainer,
+  retainerStore,
+  trackRetainerItem,
+} from "@/lib/market/retainers";
+import { isMultiWorldScope } from "@/lib/market/worlds";
+
+export function ItemDetail({
+  itemId,
+  initialWorld,
+}: {
+  itemId: number;
+  initialWorld: string;
+}) {
+  const router = useRouter();
+  const localItems = useLocalItems();
+  const worldRegistry = useWorldRegistry();
+  const retainerConfig = useLocalStore(retainerStore);
+  const [selectedWorld, setSelectedWorld] = useState(initialWorld);
+  const tax = useTaxRate(worldRegistry, selectedWorld);
+
+  const [meta, setMeta] = useState<ItemMeta | null>(null);
+  const [metaError, setMetaError] = useState<string | null>(null);
+  const [metaAttempt, setMetaAttempt] = useState(0); // 按重試時 +1 重新查
+  const [market, setMarket] = useState<ItemMarket | null>(null);
+  const [marketLoading, setMarketLoading] = useState(false);
+  const [marketError, setMarketError] = useState<string | null>(null);
+  const [marketAttempt, setMarketAttempt] = useState(0);
+
+  const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+  const isDCMode = isMultiWorldScope(worldRegistry, selectedWorld);
+
+  // 各伺服器的最後上傳時間，最新的排前面
+  const worldUploads = useMemo(() => {
+    if (!market) return [];
+    return Object.entries(market.worldUploadTimes)
+      .map(([id, time]) => ({
+        name: worldRegistry.worldsById.get(Number(id))?.name ?? `#${id}`,
+        time,
+      }))
+      .sort((a, b) => b.time - a.time);
+  }, [market, worldRegistry]);
+
+  // ===== 1. Item Metadata (XIVAPI) =====
+  useEffect(() => {
+    const controller = new AbortController();
+    setMetaError(null);
+    fetchItemMeta(itemId, controller.signal)
+      .then((m) => {
+        setMeta(m);
+        rememberRecentItem({ id: m.id, name: m.name, iconUrl: m.iconUrl });
+      })
+      .catch((e) => {
+        if (controller.signal.aborted) return;
+        console.error("Item meta error:", e);
+        setMetaError("無法取得物品資料");
+      });
+    return () => controller.abort();
+  }, [itemId, metaAttempt]);
+
+  // ===== 2. Listings & Recent Sales (Universalis) =====
+  useEffect(() => {
+    const controller = new AbortController();
+    setMarketLoading(true);
+    setMarketError(null);
+    setMarket(null);
+
+    fetchItemMarket(selectedWorld, itemId, controller.signal)
+      .then(setMarket)
+      .catch((e) => {
+        if (controller.signal.aborted) return;
+        console.error("Item market error:", e);
+        // 查詢失敗不能顯示成「目前沒有上架」
+        setMarketError("無法取得上架資料");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setMarketLoading(false);
+      });
+    return () => controller.abort();
+  }, [itemId, selectedWorld, marketAttempt]);
+
+  // ===== Handlers =====
+  function trackRetainer(retainerName: string) {
+    addRetainer(retainerName);
+    trackRetainerItem({ itemId, itemName: meta?.name || `#${itemId}` });
+    toast({
+      title: "已加入雇員追蹤",
+      description: `${retainerName} · ${meta?.name || `#${itemId}`}`,
+    });
+  }
+
+  function changeWorld(next: string) {
+    setSelectedWorld(next);
+    // 同步到網址，貼到 Discord 的連結才會帶著伺服器
+    router.replace(`/item/${itemId}?world=${encodeURIComponent(next)}`, {
+      scroll: false,
+    });
+  }
+
+  const displayName =
+    localItems[String(itemId)]?.name || meta?.name || `#${itemId}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-4">
+          <Link
+            href="/"
+            className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            返回列表
+          </Link>
+          <WorldSelect
+            registry={worldRegistry}
+            value={selectedWorld}
+            onChange={changeWorld}
+          />
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="grid gap-6 lg:grid-cols-2 items-start">
+          {/* Item Metadata */}
+          <Card className="p-4">
+            <div className="flex items-start gap-4">
+              <div className="w-16 h-16 shrink-0 rounded bg-secondary overflow-hidden border border-border">
+                {meta && (
+                  <img
+                    src={meta.iconUrl}
+                    alt={displayName}
+                    className="w-full h-full object-cover"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src = "/placeholder.svg";
+                    }}
+                  />
+                )}
+              </div>
+              <div className="min-w-0 space-y-1">
+                <h1 className="text-2xl font-bold text-foreground">
+                  {displayName}
+                </h1>
+                {meta && displayName !== meta.name && (
+                  <p className="text-sm text-muted-foreground">{meta.name}</p>
+                )}
+                <div className="flex flex-wrap gap-1.5 text-xs">
+                  <Badge variant="outline" className="font-mono">
+                    ID: {itemId}
+                  </Badge>
+                  {meta?.category && (
+                    <Badge variant="secondary">{meta.category}</Badge>
+                  )}
+                  {meta && meta.itemLevel > 0 && (
+                    <Badge variant="secondary">物品等級 {meta.itemLevel}</Badge>
+                  )}
+                  {meta && meta.equipLevel > 0 && (
+                    <Badge variant="secondary">
+                      裝備等級 {meta.equipLevel}
+                    </Badge>
+                  )}
+                  {meta && (
+                    <Badge variant="secondary">堆疊 {meta.stackSize}</Badge>
+                  )}
+                  {meta?.canBeHq && <Badge variant="secondary">可 HQ</Badge>}
+                </div>
+                {metaError && (
+                  <p className="text-sm text-destructive">{metaError}</p>
+                )}
+                {meta?.description && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">
+                    {meta.description}
+                  </p>
+                )}
+              </div>
+            </div>
+          </Card>
+
+          {/* Crafting Cost */}
+          <Card className="p-4">
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <h2 className="font-semibold">製作成本</h2>
+              <TaxCitySelect
+                rates={tax.rates}
+                className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+              />
+            </div>
+            {metaError ? (
+              <LoadError
+                message={metaError}
+                onRetry={() => setMetaAttempt((n) => n + 1)}
+              />
+            ) : meta ? (
+              <RecipeCalculator
+                itemId={itemId}
+                name={meta.name}
+                iconUrl={meta.iconUrl}
+                worldOrDc={selectedWorld}
+                taxRate={tax.rate}
+                localNames={localItems}
+              />
+            ) : (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            )}
+          </Card>
+        </div>
+
+        {/* Price History */}
+        <Card className="p-4">
+          <h2 className="font-semibold mb-3">價格走勢</h2>
+          <PriceHistoryChart itemId={itemId} worldOrDc={selectedWorld} />
+        </Card>
+
+        {/* Listings */}
+        <Card className="p-4">
+          <h2 className="font-semibold mb-3">
+            目前上架
+            {market && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                共 {market.listings.length} 筆
+                {market.lastUploadTime && (
+                  <>
+                    {` · 更新於 ${format(market.lastUploadTime, "MM/dd HH:mm")} `}
+                    <span
+                      className={
+                        FRESHNESS_CLASSES[freshnessLevel(market.lastUploadTime)]
+                      }
+                    >
+                      ({formatUploadAge(market.lastUploadTime)})
+                    </span>
+                  </>
+                )}
+              </span>
+            )}
+          </h2>
+          {isDCMode && worldUploads.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mb-3 text-xs">
+              {worldUploads.map((w) => (
+                <span
+                  key={w.name}
+                  className="px-2 py-0.5 rounded bg-secondary"
+                  title={format(w.time, "MM/dd HH:mm")}
+                >
+                  {w.name}{" "}
+                  <span className={FRESHNESS_CLASSES[freshnessLevel(w.time)]}>
+                    {formatUploadAge(w.time)}
+                  </span>
+                </span>
+              ))}
+            </div>
+          )}
+          {marketLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : marketError ? (
+            <LoadError
+              message={marketError}
+              onRetry={() => setMarketAttempt((n) => n + 1)}
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">單價</TableHead>
+                  <TableHead className="text-right">數量</TableHead>
+                  <TableHead className="text-right">總價 (含稅)</TableHead>
+                  <TableHead>品質</TableHead>
+                  <TableHead>魔晶石</TableHead>
+                  <TableHead>雇員</TableHead>
+                  {isDCMode && <TableHead>伺服器</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {market?.listings.map((l, i) => {
+                  const mine = isMyRetainer(
+                    l.retainerName,
+                    retainerConfig.retainerNames
+                  );
+                  return (
+                    <TableRow
+                      key={l.listingId || i}
+                      className={mine ? "bg-primary/5" : ""}
+                    >
+                      <TableCell className="text-right font-mono">
+                        {gilFmt.format(l.pricePerUnit)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {l.quantity}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {gilFmt.format(l.total + l.tax)}
+                      </TableCell>
+                      <TableCell>
+                        {l.hq ? (
+                          <span className="text-amber-600 dark:text-amber-400">
+                            HQ
+                          </span>
+                        ) : (
+                          "NQ"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {l.materia.length > 0 ? `${l.materia.length} 顆` : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <span className="inline-flex items-center gap-1">
+                          {l.retainerName}
+                          {mine ? (
+                            <Badge variant="secondary">我的雇員</Badge>
+                          ) : (
+                            l.retainerName && (
+                              <button
+                                className="text-muted-foreground hover:text-foreground"
+                                title="這是我的雇員，追蹤這個物品"
+                                onClick={() => trackRetainer(l.retainerName)}
+                              >
+                                <UserPlus className="h-3 w-3" />
+                              </button>
+                            )
+                          )}
+                        </span>
+                      </TableCell>
+                      {isDCMode && <TableCell>{l.worldName}</TableCell>}
+                    </TableRow>
+                  );
+                })}
+                {market && market.listings.length === 0 && (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center text-muted-foreground"
+                    >
+                      目前沒有上架
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+
+        {/* Recent Sales */}
+        <Card className="p-4">
+          <h2 className="font-semibold mb-3">最近成交</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>時間</TableHead>
+                <TableHead className="text-right">單價</TableHead>
+                <TableHead className="text-right">數量</TableHead>
+                <TableHead>品質</TableHead>
+                <TableHead>買家</TableHead>
+                {isDCMode && <TableHead>伺服器</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {market?.recentHistory.map((s, i) => (
+                <TableRow key={`${s.timestamp}-${i}`}>
+                  <TableCell className="font-mono">
+                    {format(s.timestamp * 1000, "MM/dd HH:mm")}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {gilFmt.format(s.pricePerUnit)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {s.quantity}
+                  </TableCell>
+                  <TableCell>{s.hq ? "HQ" : "NQ"}</TableCell>
+                  <TableCell>{s.buyerName || "-"}</TableCell>
+                  {isDCMode && <TableCell>{s.worldName}</TableCell>}
+                </TableRow>
+              ))}
+              {marketError && (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="text-center text-destructive"
+                  >
+                    {marketError}
+                  </TableCell>
+                </TableRow>
+              )}
+              {market && market.recentHistory.length === 0 && (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="text-center text-muted-foreground"
+                  >
+                    沒有成交紀錄
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function LoadError({
+  message,
+  onRetry,
+}: {
+  message: string;
+  onRetry: () => void;
+}) {
+  return (
+    <div className="text-center py-8 text-sm text-muted-foreground space-y-2">
+      <p>{message}</p>
+      <button
+        className="h-8 px-3 rounded border bg-background hover:bg-accent text-sm"
+        onClick={onRetry}
+      >
+        重試
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { LocalItemsStatus } from "@/lib/market/local-items";
+
+/** 本地物品資料缺少或格式不對時的提示；載入中或正常時不顯示 */
+export function LocalItemsNotice({ status }: { status: LocalItemsStatus }) {
+  if (status !== "missing" && status !== "invalid") return null;
+
+  return (
+    <Alert className="mb-6">
+      <TriangleAlert />
+      <AlertTitle>
+        {status === "missing"
+          ? "找不到本地物品資料 (items.json)"
+          : "本地物品資料格式不符，已略過"}
+      </AlertTitle>
+      <AlertDescription>
+        物品名稱會先以 XIVAPI 的英文顯示。執行 pnpm items:generate 產生新的
+        public/items.json 後重新整理即可。
+      </AlertDescription>
+    </Alert>
+  );
+}
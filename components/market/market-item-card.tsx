@@ -0,0 +1,341 @@
+"use client";
+
+import Link from "next/link";
+import { Bell, Globe, LineChart } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertRuleForm } from "@/components/market/alert-rule-form";
+import { PriceHistoryChart } from "@/components/market/price-history-chart";
+import { WatchlistMenu } from "@/components/market/watchlist-menu";
+import { toast } from "@/hooks/use-toast";
+import { addAlertRule } from "@/lib/market/alerts";
+import {
+  DEFAULT_STALE_HOURS,
+  FRESHNESS_CLASSES,
+  freshnessLevel,
+  formatUploadAge,
+} from "@/lib/market/freshness";
+import { computeMarketHealth } from "@/lib/market/health";
+import { costForQuantity } from "@/lib/market/quantity";
+import { DEFAULT_TAX_RATE, priceWithTax } from "@/lib/market/tax";
+import type { MarketItem } from "@/lib/market/items";
+import { listingsCountOf, type PriceInfo } from "@/lib/market/prices";
+
+export function MarketItemCard({
+  item,
+  price,
+  gilFmt,
+  loading,
+  selectedWorld,
+  isDCMode,
+  localName, // 接收翻譯名稱
+  staleHours = DEFAULT_STALE_HOURS,
+  quantity = 1,
+  onlyHQ = false,
+  taxRate = DEFAULT_TAX_RATE,
+}: {
+  item: MarketItem;
+  price?: PriceInfo;
+  gilFmt: Intl.NumberFormat;
+  loading: boolean;
+  selectedWorld: string;
+  isDCMode: boolean;
+  localName?: string;
+  staleHours?: number;
+  quantity?: number;
+  onlyHQ?: boolean; // 與列表的「只看 HQ」一致，買 N 個的花費只算 HQ 上架
+  taxRate?: number;
+}) {
+  // 🔥 優先顯示翻譯名稱，若無則顯示 item.name (英文)
+  const displayName = localName || item.name;
+  const health = price ? computeMarketHealth(price, staleHours) : null;
+  const freshness = freshnessLevel(price?.lastUploadTime, staleHours);
+  const bulk =
+    price && quantity > 1
+      ? costForQuantity(price.depth, quantity, onlyHQ)
+      : null;
+
+  // 名稱已經出來、價格還在路上
+  const pricePending = loading && !price;
+
+  const formatRate = (v: number) => (v >= 10 ? Math.round(v) : v.toFixed(1));
+
+  const renderPriceRow = (
+    label: string,
+    value: number,
+    world?: string,
+    className?: string
+  ) => {
+    const hasPrice = value > 0;
+    return (
+      <div
+        className={`flex justify-between items-baseline text-xs ${className}`}
+      >
+        <span className="text-muted-foreground shrink-0">{label}</span>
+        <div className="text-right overflow-hidden">
+          {pricePending ? (
+            <Skeleton className="h-3.5 w-16 ml-auto" />
+          ) : (
+            <span
+              className={`font-semibold ${
+                hasPrice ? "text-foreground" : "text-muted-foreground"
+              }`}
+            >
+              {hasPrice ? gilFmt.format(value) : "-"}
+            </span>
+          )}
+          {isDCMode && hasPrice && world && (
+            <span className="ml-1 text-[10px] text-muted-foreground bg-secondary px-1 py-0.5 rounded">
+              {world}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="group overflow-hidden hover:shadow-lg transition-all duration-200 hover:border-primary/50">
+      <div className="p-3">
+        <div className="flex items-start gap-3 mb-3">
+          <div className="relative w-12 h-12 shrink-0 rounded bg-secondary overflow-hidden border border-border">
+            <img
+              src={item.iconUrl}
+              alt={displayName}
+              className="w-full h-full object-cover"
+              loading="lazy"
+              onError={(e) => {
+                (e.target as HTMLImageElement).src = "/placeholder.svg";
+              }}
+            />
+          </div>
+          <div className="min-w-0">
+            {/* 顯示最終名稱 */}
+            <Link
+              href={`/item/${item.id}?world=${encodeURIComponent(selectedWorld)}`}
+              className="hover:underline"
+            >
+              <h3 className="font-medium text-sm text-foreground line-clamp-2 leading-tight">
+                {displayName}
+              </h3>
+            </Link>
+            <p className="text-[10px] text-muted-foreground mt-1 font-mono flex items-center gap-1">
+              ID: {item.id}
+              {price && (
+                <span
+                  className={`font-sans px-1 rounded ${
+                    FRESHNESS_CLASSES[freshness]
+                  } ${freshness === "stale" ? "bg-amber-500/10" : ""}`}
+                  title={
+                    freshness === "stale"
+                      ? `超過 ${staleHours} 小時沒有人更新這個物品的市場資料`
+                      : "最後上傳時間"
+                  }
+                >
+                  {formatUploadAge(price.lastUploadTime)}
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-muted/50 rounded p-2 space-y-1.5">
+          {renderPriceRow(
+            "NQ",
+            price?.minNQ ?? 0,
+            price?.minNQWorld,
+            price && price.minNQ > 0
+              ? "text-emerald-600 dark:text-emerald-400"
+              : ""
+          )}
+
+          {renderPriceRow(
+            "HQ",
+            price?.minHQ ?? 0,
+            price?.minHQWorld,
+            "text-amber-600 dark:text-amber-400"
+          )}
+
+          {price && price.minAll > 0 && (
+            <div
+              className="flex justify-between items-baseline text-[10px] text-muted-foreground"
+              title={`以最低價買入，加上 ${Math.round(taxRate * 100)}% 稅後實付`}
+            >
+              <span>含稅買價</span>
+              <span className="font-mono">
+                {gilFmt.format(priceWithTax(price.minAll, taxRate))}
+              </span>
+            </div>
+          )}
+
+          {quantity > 1 && price && (
+            <div
+              className="flex justify-between items-baseline text-xs"
+              title={
+                bulk && !bulk.complete
+                  ? `目前抓到的上架只有 ${bulk.units} 個`
+                  : `最便宜的幾筆${onlyHQ ? " HQ " : ""}上架加總 (未稅)`
+              }
+            >
+              <span className="text-muted-foreground shrink-0">
+                買 {quantity} 個
+              </span>
+              <div className="text-right">
+                {bulk ? (
+                  <>
+                    <span className="font-semibold text-foreground">
+                      {gilFmt.format(bulk.cost)}
+                    </span>
+                    <span className="ml-1 text-[10px] text-muted-foreground">
+                      均 {gilFmt.format(bulk.average)}
+                      {!bulk.complete && ` · 僅 ${bulk.units} 個`}
+                    </span>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">-</span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {health && (
+            <div className="pt-1.5 mt-1 border-t border-border/50 grid grid-cols-2 gap-x-2 gap-y-0.5 text-[10px] text-muted-foreground">
+              <span
+                title={`NQ ${formatRate(health.salesPerDayNQ)} / HQ ${formatRate(
+                  health.salesPerDayHQ
+                )}`}
+              >
+                銷量{" "}
+                <span
+                  className={
+                    health.salesPerDay > 0
+                      ? "text-foreground"
+                      : "text-destructive"
+                  }
+                >
+                  {formatRate(health.salesPerDay)}/天
+                </span>
+              </span>
+              <span className="text-right">
+                均價{" "}
+                <span className="text-foreground">
+                  {health.averagePrice
+                    ? gilFmt.format(health.averagePrice)
+                    : "-"}
+                </span>
+              </span>
+              <span>
+                庫存{" "}
+                <span className="text-foreground">
+                  {health.daysOfSupply === null
+                    ? "賣不動"
+                    : `${formatRate(health.daysOfSupply)} 天`}
+                </span>
+              </span>
+              <span className="text-right">
+                價差{" "}
+                <span
+                  className={
+                    health.spread === null
+                      ? ""
+                      : health.spread < 0
+                        ? "text-emerald-600 dark:text-emerald-400"
+                        : "text-foreground"
+                  }
+                >
+                  {health.spread === null
+                    ? "-"
+                    : `${health.spread > 0 ? "+" : ""}${Math.round(
+                        health.spread * 100
+                      )}%`}
+                </span>
+              </span>
+            </div>
+          )}
+
+          <div className="pt-2 mt-1 border-t border-border/50 flex justify-between items-center text-[10px] text-muted-foreground">
+            <span className="flex items-center gap-1">
+              {isDCMode ? <Globe className="h-3 w-3" /> : null}
+              {price ? `庫存: ${listingsCountOf(price)}` : "讀取中..."}
+            </span>
+            <div className="flex items-center gap-2">
+              <WatchlistMenu itemId={item.id} />
+              <Dialog>
+                <DialogTrigger asChild>
+                  <button
+                    className="flex items-center hover:text-foreground"
+                    title="價格提醒"
+                  >
+                    <Bell className="h-3 w-3" />
+                  </button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>{displayName} 價格提醒</DialogTitle>
+                  </DialogHeader>
+                  <AlertRuleForm
+                    itemId={item.id}
+                    defaultWorld={selectedWorld}
+                    onSubmit={(rule) => {
+                      addAlertRule({ ...rule, itemName: displayName });
+                      toast({ title: "已新增提醒", description: displayName });
+                    }}
+                  />
+                </DialogContent>
+              </Dialog>
+              <Dialog>
+                <DialogTrigger asChild>
+                  <button
+                    className="flex items-center gap-1 hover:text-foreground"
+                    title="價格走勢"
+                  >
+                    <LineChart className="h-3 w-3" />
+                    走勢
+                  </button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-3xl">
+                  <DialogHeader>
+                    <DialogTitle>{displayName} 價格走勢</DialogTitle>
+                  </DialogHeader>
+                  <PriceHistoryChart
+                    itemId={item.id}
+                    worldOrDc={selectedWorld}
+                  />
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+/** 物品資料還沒回來時佔位用，版面與 MarketItemCard 對齊 */
+export function MarketItemCardSkeleton() {
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-3">
+        <div className="flex items-start gap-3 mb-3">
+          <Skeleton className="w-12 h-12 shrink-0 rounded" />
+          <div className="flex-1 space-y-2 pt-0.5">
+            <Skeleton className="h-3.5 w-3/4" />
+            <Skeleton className="h-2.5 w-1/3" />
+          </div>
+        </div>
+        <div className="bg-muted/50 rounded p-2 space-y-2">
+          <Skeleton className="h-3.5 w-full" />
+          <Skeleton className="h-3.5 w-full" />
+          <Skeleton className="h-3 w-2/3 mt-3" />
+        </div>
+      </div>
+    </Card>
+  );
+}
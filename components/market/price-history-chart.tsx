@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  aggregateHistory,
+  fetchSaleHistory,
+  type HistoryGranularity,
+  type SaleEntry,
+} from "@/lib/market/history";
+
+const chartConfig = {
+  avgNQ: { label: "NQ 均價", color: "var(--chart-1)" },
+  avgHQ: { label: "HQ 均價", color: "var(--chart-2)" },
+  min: { label: "最低", color: "var(--chart-3)" },
+  max: { label: "最高", color: "var(--chart-4)" },
+  volume: { label: "成交量", color: "var(--chart-5)" },
+} satisfies ChartConfig;
+
+export function PriceHistoryChart({
+  itemId,
+  worldOrDc,
+}: {
+  itemId: number;
+  worldOrDc: string;
+}) {
+  const [entries, setEntries] = useState<SaleEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [granularity, setGranularity] = useState<HistoryGranularity>("day");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    fetchSaleHistory(worldOrDc, itemId, controller.signal)
+      .then(setEntries)
+      .catch((e) => {
+        if (controller.signal.aborted) return;
+        console.error("History fetch error:", e);
+        setError("無法取得成交紀錄");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [itemId, worldOrDc]);
+
+  // 沒有成交的序列用 null，讓折線斷開而不是掉到 0
+  const data = useMemo(
+    () =>
+      aggregateHistory(entries, granularity).map((b) => ({
+        ...b,
+        label: format(b.time, granularity === "day" ? "MM/dd" : "MM/dd HH:00"),
+        avgNQ: b.avgNQ || null,
+        avgHQ: b.avgHQ || null,
+      })),
+    [entries, granularity]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || data.length === 0) {
+    return (
+      <div className="text-center py-12 text-sm text-muted-foreground">
+        {error ?? "近 30 天沒有成交紀錄"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          近 30 天共 {entries.length} 筆成交 ({worldOrDc})
+        </span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={granularity}
+          onValueChange={(v) => v && setGranularity(v as HistoryGranularity)}
+        >
+          <ToggleGroupItem value="day">日</ToggleGroupItem>
+          <ToggleGroupItem value="hour">小時</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+        <ComposedChart data={data} margin={{ left: 4, right: 4 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="label"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+          />
+          <YAxis
+            yAxisId="price"
+            tickLine={false}
+            axisLine={false}
+            width={56}
+            tickFormatter={(v: number) => v.toLocaleString()}
+          />
+          <YAxis yAxisId="volume" orientation="right" hide />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar
+            yAxisId="volume"
+            dataKey="volume"
+            fill="var(--color-volume)"
+            fillOpacity={0.3}
+          />
+          <Line
+            yAxisId="price"
+            dataKey="avgNQ"
+            stroke="var(--color-avgNQ)"
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            yAxisId="price"
+            dataKey="avgHQ"
+            stroke="var(--color-avgHQ)"
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            yAxisId="price"
+            dataKey="min"
+            stroke="var(--color-min)"
+            strokeDasharray="4 4"
+            dot={false}
+          />
+          <Line
+            yAxisId="price"
+            dataKey="max"
+            stroke="var(--color-max)"
+            strokeDasharray="4 4"
+            dot={false}
+          />
+        </ComposedChart>
+      </ChartContainer>
+    </div>
+  );
+}
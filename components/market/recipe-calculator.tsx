@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { fetchPriceMap, type PriceInfo } from "@/lib/market/prices";
+import {
+  collectItemIds,
+  computeCosts,
+  expandRecipeTree,
+  type CraftChoice,
+  type NodeCost,
+  type RecipeNode,
+} from "@/lib/market/recipes";
+import { priceWithTax } from "@/lib/market/tax";
+
+export function RecipeCalculator({
+  itemId,
+  name,
+  iconUrl,
+  worldOrDc,
+  taxRate,
+  localNames,
+}: {
+  itemId: number;
+  name: string;
+  iconUrl: string;
+  worldOrDc: string;
+  taxRate: number;
+  localNames?: Record<string, { name: string }>;
+}) {
+  const [tree, setTree] = useState<RecipeNode | null>(null);
+  const [treeLoading, setTreeLoading] = useState(false);
+  const [treeError, setTreeError] = useState<string | null>(null);
+  const [treeAttempt, setTreeAttempt] = useState(0); // 按重試時 +1 重新展開
+  const [priceMap, setPriceMap] = useState<Map<number, PriceInfo>>(new Map());
+  const [priceLoading, setPriceLoading] = useState(false);
+  const [choices, setChoices] = useState<Map<number, CraftChoice>>(new Map());
+
+  const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+
+  // ===== 1. Expand Recipe Tree (XIVAPI) =====
+  useEffect(() => {
+    let active = true;
+    setTreeLoading(true);
+    setTreeError(null);
+    setTree(null);
+    setChoices(new Map());
+
+    expandRecipeTree(itemId, name, iconUrl)
+      .then((t) => active && setTree(t))
+      .catch((e) => {
+        if (!active) return;
+        console.error("Recipe tree error:", e);
+        // 查詢失敗不能當成「沒有配方」，要讓使用者可以重試
+        setTreeError("無法取得製作配方");
+      })
+      .finally(() => active && setTreeLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [itemId, name, iconUrl, treeAttempt]);
+
+  // ===== 2. Price Every Node (Universalis) =====
+  useEffect(() => {
+    if (!tree) return;
+    const controller = new AbortController();
+    const ids = Array.from(collectItemIds(tree));
+    setPriceLoading(true);
+
+    fetchPriceMap(worldOrDc, ids, controller.signal)
+      .then(setPriceMap)
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error("Recipe price error:", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setPriceLoading(false);
+      });
+    return () => controller.abort();
+  }, [tree, worldOrDc]);
+
+  // ===== Derived: Costs =====
+  const costs = useMemo(() => {
+    if (!tree) return new Map<number, NodeCost>();
+    // 稅由買方付：買材料要加稅，成品賣出拿到的就是標價
+    const buyPrices = new Map<number, number>();
+    priceMap.forEach((p, id) =>
+      buyPrices.set(id, priceWithTax(p.minAll, taxRate))
+    );
+    // 成品本身一律算「自己做」的成本
+    const rootChoices = new Map(choices);
+    rootChoices.set(tree.itemId, "craft");
+    return computeCosts(tree, buyPrices, rootChoices);
+  }, [tree, priceMap, choices, taxRate]);
+
+  function setChoice(id: number, choice: CraftChoice) {
+    setChoices((prev) => new Map(prev).set(id, choice));
+  }
+
+  if (treeLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (treeError) {
+    return (
+      <div className="text-center py-12 text-sm text-muted-foreground space-y-2">
+        <p>{treeError}</p>
+        <button
+          className="h-8 px-3 rounded border bg-background hover:bg-accent text-sm"
+          onClick={() => setTreeAttempt((n) => n + 1)}
+        >
+          重試
+        </button>
+      </div>
+    );
+  }
+
+  if (!tree?.recipe) {
+    return (
+      <div className="text-center py-12 text-sm text-muted-foreground">
+        這個物品沒有製作配方
+      </div>
+    );
+  }
+
+  const rootPrice = priceMap.get(tree.itemId);
+  const craftCost = costs.get(tree.itemId)?.unitCraft ?? 0;
+  const salePrice = rootPrice ? rootPrice.minHQ || rootPrice.minNQ : 0;
+  const margin = salePrice && craftCost ? salePrice - craftCost : 0;
+
+  const renderNode = (node: RecipeNode, depth: number, key: string) => {
+    const cost = costs.get(node.itemId);
+    const displayName = localNames?.[String(node.itemId)]?.name || node.name;
+    const isRoot = depth === 0;
+    const expanded = isRoot || cost?.choice === "craft";
+
+    return (
+      <div key={key}>
+        <div
+          className="flex items-center gap-2 py-1 text-xs border-b border-border/40"
+          style={{ paddingLeft: depth * 16 }}
+        >
+          <img
+            src={node.iconUrl}
+            alt={displayName}
+            className="w-5 h-5 rounded shrink-0"
+            loading="lazy"
+          />
+          <span className="flex-1 min-w-0 truncate">
+            {displayName}
+            {!isRoot && (
+              <span className="text-muted-foreground"> ×{node.amount}</span>
+            )}
+          </span>
+          {!isRoot && node.recipe && (
+            <div className="flex rounded border overflow-hidden shrink-0">
+              {(["buy", "craft"] as const).map((c) => (
+                <button
+                  key={c}
+                  className={`px-1.5 py-0.5 ${
+                    cost?.choice === c
+                      ? "bg-primary text-primary-foreground"
+                      : "hover:bg-accent"
+                  }`}
+                  disabled={c === "craft" && !cost?.unitCraft}
+                  onClick={() => setChoice(node.itemId, c)}
+                >
+                  {c === "buy" ? "買" : "做"}
+                </button>
+              ))}
+            </div>
+          )}
+          <span className="w-20 text-right font-mono shrink-0">
+            {cost?.unitCost ? gilFmt.format(Math.round(cost.unitCost)) : "-"}
+          </span>
+          <span className="w-24 text-right font-mono shrink-0 text-muted-foreground">
+            {!isRoot && cost?.unitCost
+              ? gilFmt.format(Math.round(cost.unitCost * node.amount))
+              : ""}
+          </span>
+        </div>
+        {expanded &&
+          node.children.map((c, i) => renderNode(c, depth + 1, `${key}-${i}`))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-muted/50 rounded p-2">
+          <p className="text-[10px] text-muted-foreground">製作成本 / 個</p>
+          <p className="font-semibold font-mono">
+            {craftCost ? gilFmt.format(Math.round(craftCost)) : "-"}
+          </p>
+          <p className="text-[10px] text-muted-foreground">
+            材料含 {Math.round(taxRate * 100)}% 稅
+          </p>
+        </div>
+        <div className="bg-muted/50 rounded p-2">
+          <p className="text-[10px] text-muted-foreground">預期售價</p>
+          <p className="font-semibold font-mono">
+            {salePrice ? gilFmt.format(salePrice) : "-"}
+          </p>
+        </div>
+        <div className="bg-muted/50 rounded p-2">
+          <p className="text-[10px] text-muted-foreground">利潤</p>
+          <p
+            className={`font-semibold font-mono ${
+              margin > 0
+                ? "text-emerald-600 dark:text-emerald-400"
+                : margin < 0
+                  ? "text-destructive"
+                  : ""
+            }`}
+          >
+            {margin ? gilFmt.format(Math.round(margin)) : "-"}
+            {margin && craftCost ? (
+              <span className="ml-1 text-[10px]">
+                ({((margin / craftCost) * 100).toFixed(0)}%)
+              </span>
+            ) : null}
+          </p>
+        </div>
+      </div>
+
+      {/* Tree */}
+      <div>
+        <div className="flex items-center gap-2 pb-1 text-[10px] text-muted-foreground border-b">
+          <span className="flex-1">
+            材料{tree.recipe.craftType && ` (${tree.recipe.craftType})`}
+            {tree.recipe.amountResult > 1 &&
+              ` · 一次產出 ${tree.recipe.amountResult} 個`}
+          </span>
+          {priceLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+          <span className="w-20 text-right">單價</span>
+          <span className="w-24 text-right">小計</span>
+        </div>
+        {renderNode(tree, 0, "root")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Copy,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WorldSelect } from "@/components/market/world-select";
+import { useLocalItems } from "@/hooks/use-local-items";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { toast } from "@/hooks/use-toast";
+import { useWorldRegistry } from "@/hooks/use-world-registry";
+import { fetchItemRows } from "@/lib/market/items";
+import { fetchPriceSnapshots, type PriceSnapshot } from "@/lib/market/prices";
+import {
+  RETAINER_LISTINGS_PER_ITEM,
+  addRetainer,
+  analyzeRetainerListings,
+  removeRetainer,
+  retainerStore,
+  setRetainerScope,
+  trackRetainerItem,
+  untrackRetainerItem,
+  type RetainerItemReport,
+} from "@/lib/market/retainers";
+
+/**
+ * 雇員壓價追蹤：輸入自家雇員名稱與要追蹤的物品，
+ * 從 Universalis 的上架資料找出我們的上架，比較同伺服器的別人是否更便宜。
+ */
+export function RetainerTracker() {
+  const config = useLocalStore(retainerStore);
+  const localItems = useLocalItems();
+  const worldRegistry = useWorldRegistry();
+
+  const [retainerInput, setRetainerInput] = useState("");
+  const [itemInput, setItemInput] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [snapshots, setSnapshots] = useState<Map<number, PriceSnapshot>>(
+    new Map()
+  );
+  const [loading, setLoading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+  const itemIdsKey = config.items.map((it) => it.itemId).join(",");
+
+  // ===== Listings =====
+  // 雇員名單變動不用重抓，分析是純計算
+  useEffect(() => {
+    const ids = itemIdsKey ? itemIdsKey.split(",").map(Number) : [];
+    if (!ids.length) {
+      setSnapshots(new Map());
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    fetchPriceSnapshots(
+      config.worldOrDc,
+      ids,
+      RETAINER_LISTINGS_PER_ITEM,
+      controller.signal
+    )
+      .then(setSnapshots)
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error("Retainer listings:", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [itemIdsKey, config.worldOrDc, refreshKey]);
+
+  // 被壓價的排最前面，其次是找不到上架的
+  const reports = useMemo(() => {
+    const rank = (r: RetainerItemReport) =>
+      r.statuses.some((s) => s.undercut) ? 0 : r.missing ? 1 : 2;
+    return config.items
+      .map((it) =>
+        analyzeRetainerListings(
+          it.itemId,
+          snapshots.get(it.itemId),
+          config.retainerNames
+        )
+      )
+      .sort((a, b) => rank(a) - rank(b));
+  }, [config, snapshots]);
+
+  const undercutCount = reports.reduce(
+    (n, r) => n + r.statuses.filter((s) => s.undercut).length,
+    0
+  );
+
+  // ===== Handlers =====
+  function handleAddRetainer() {
+    addRetainer(retainerInput);
+    setRetainerInput("");
+  }
+
+  async function handleAddItem() {
+    const itemId = Number(itemInput);
+    if (!Number.isInteger(itemId) || itemId <= 0) return;
+    setAdding(true);
+    try {
+      const itemName =
+        localItems[String(itemId)]?.name ||
+        (await fetchItemRows([itemId]))[0]?.name ||
+        `#${itemId}`;
+      trackRetainerItem({ itemId, itemName });
+      setItemInput("");
+    } catch (e) {
+      console.error("Track item error:", e);
+      trackRetainerItem({ itemId, itemName: `#${itemId}` });
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  async function copyPrice(price: number) {
+    try {
+      await navigator.clipboard.writeText(String(price));
+      toast({ title: "已複製建議價", description: gilFmt.format(price) });
+    } catch (e) {
+      console.error("Clipboard error:", e);
+    }
+  }
+
+  function itemName(itemId: number) {
+    return (
+      localItems[String(itemId)]?.name ||
+      config.items.find((it) => it.itemId === itemId)?.itemName ||
+      `#${itemId}`
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/"
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              返回列表
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">雇員追蹤</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <WorldSelect
+              registry={worldRegistry}
+              value={config.worldOrDc}
+              onChange={setRetainerScope}
+            />
+            <button
+              className="h-10 px-3 rounded border bg-background hover:bg-accent text-sm flex items-center gap-1 disabled:opacity-50"
+              disabled={loading || config.items.length === 0}
+              onClick={() => setRefreshKey((k) => k + 1)}
+            >
+              {loading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              重新檢查
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Retainers */}
+          <Card className="p-4 space-y-3">
+            <h2 className="font-semibold">我的雇員</h2>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAddRetainer();
+              }}
+            >
+              <Input
+                className="h-9"
+                placeholder="雇員名稱"
+                value={retainerInput}
+                onChange={(e) => setRetainerInput(e.target.value)}
+              />
+              <button
+                type="submit"
+                className="h-9 px-3 rounded border bg-background hover:bg-accent text-sm flex items-center gap-1 disabled:opacity-50"
+                disabled={!retainerInput.trim()}
+              >
+                <Plus className="h-4 w-4" />
+                新增
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-1.5">
+              {config.retainerNames.map((name) => (
+                <Badge key={name} variant="secondary" className="gap-1">
+                  {name}
+                  <button
+                    className="text-muted-foreground hover:text-destructive"
+                    title="移除"
+                    onClick={() => removeRetainer(name)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {config.retainerNames.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  也可以在物品頁的上架列表直接點雇員名稱旁的按鈕加入
+                </p>
+              )}
+            </div>
+          </Card>
+
+          {/* Tracked Items */}
+          <Card className="p-4 space-y-3">
+            <h2 className="font-semibold">追蹤物品</h2>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAddItem();
+              }}
+            >
+              <Input
+                className="h-9"
+                inputMode="numeric"
+                placeholder="物品 ID"
+                value={itemInput}
+                onChange={(e) => setItemInput(e.target.value)}
+              />
+              <button
+                type="submit"
+                className="h-9 px-3 rounded border bg-background hover:bg-accent text-sm flex items-center gap-1 disabled:opacity-50"
+                disabled={adding || !itemInput.trim()}
+              >
+                <Plus className="h-4 w-4" />
+                追蹤
+              </button>
+            </form>
+            <p className="text-xs text-muted-foreground">
+              每個物品只看最便宜的 {RETAINER_LISTINGS_PER_ITEM}{" "}
+              筆上架，價格更高的自家上架會顯示為找不到。
+            </p>
+          </Card>
+        </div>
+
+        {/* Report */}
+        <Card className="p-4">
+          <h2 className="font-semibold mb-3">
+            上架狀態
+            {undercutCount > 0 && (
+              <span className="ml-2 text-xs font-normal text-destructive">
+                {undercutCount} 筆被壓價
+              </span>
+            )}
+          </h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>物品</TableHead>
+                <TableHead>雇員</TableHead>
+                <TableHead>伺服器</TableHead>
+                <TableHead>品質</TableHead>
+                <TableHead className="text-right">數量</TableHead>
+                <TableHead className="text-right">我的單價</TableHead>
+                <TableHead className="text-right">同服最低</TableHead>
+                <TableHead className="text-right">全區最低</TableHead>
+                <TableHead>狀態</TableHead>
+                <TableHead className="text-right">建議價</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.map((r) => {
+                const name = (
+                  <Link
+                    href={`/item/${r.itemId}?world=${encodeURIComponent(
+                      config.worldOrDc
+                    )}`}
+                    className="hover:underline"
+                  >
+                    {itemName(r.itemId)}
+                  </Link>
+                );
+                const untrack = (
+                  <button
+                    className="text-muted-foreground hover:text-destructive"
+                    title="停止追蹤"
+                    onClick={() => untrackRetainerItem(r.itemId)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                );
+
+                if (r.missing) {
+                  return (
+                    <TableRow key={r.itemId}>
+                      <TableCell>{name}</TableCell>
+                      <TableCell
+                        colSpan={9}
+                        className="text-muted-foreground text-xs"
+                      >
+                        {loading
+                          ? "讀取中..."
+                          : config.retainerNames.length === 0
+                            ? "請先新增雇員名稱"
+                            : "找不到我們的上架 (可能已賣完)"}
+                      </TableCell>
+                      <TableCell>{untrack}</TableCell>
+                    </TableRow>
+                  );
+                }
+
+                return r.statuses.map((s, i) => {
+                  const suggested = s.suggestedPrice;
+                  return (
+                    <TableRow
+                      key={`${r.itemId}-${s.listing.listingId || i}`}
+                      className={s.undercut ? "bg-destructive/5" : ""}
+                    >
+                      <TableCell>{i === 0 && name}</TableCell>
+                      <TableCell>{s.listing.retainerName}</TableCell>
+                      <TableCell>{s.listing.worldName}</TableCell>
+                      <TableCell>
+                        {s.listing.hq ? (
+                          <span className="text-amber-600 dark:text-amber-400">
+                            HQ
+                          </span>
+                        ) : (
+                          "NQ"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {s.listing.quantity}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {gilFmt.format(s.listing.pricePerUnit)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {s.competitorMin !== null
+                          ? gilFmt.format(s.competitorMin)
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {s.dcMin !== null ? gilFmt.format(s.dcMin) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {s.undercut ? (
+                          <span className="text-destructive">
+                            被壓價 ({s.cheaperCount} 筆)
+                          </span>
+                        ) : (
+                          <span className="text-emerald-600 dark:text-emerald-400">
+                            最低價
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {suggested !== null ? (
+                          <button
+                            className="inline-flex items-center gap-1 hover:underline"
+                            title="複製建議價"
+                            onClick={() => copyPrice(suggested)}
+                          >
+                            {gilFmt.format(suggested)}
+                            <Copy className="h-3 w-3" />
+                          </button>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{i === 0 && untrack}</TableCell>
+                    </TableRow>
+                  );
+                });
+              })}
+              {reports.length === 0 && (
+                <TableRow>
+                  <TableCell
+                    colSpan={11}
+                    className="text-center text-muted-foreground py-8"
+                  >
+                    還沒有追蹤的物品
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Copy, Loader2, Printer, Route } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WorldSelect } from "@/components/market/world-select";
+import { useLocalItemsState } from "@/hooks/use-local-items";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { toast } from "@/hooks/use-toast";
+import { useWorldRegistry } from "@/hooks/use-world-registry";
+import { fetchItemRows } from "@/lib/market/items";
+import { fetchPriceSnapshots } from "@/lib/market/prices";
+import {
+  exactMatches,
+  getSearchIndex,
+  searchIndex,
+} from "@/lib/market/search-index";
+import {
+  DEFAULT_WORLD_VISIT_COST,
+  SHOPPING_LISTINGS_PER_ITEM,
+  formatShoppingChecklist,
+  optimizeShoppingList,
+  parseShoppingList,
+  shoppingListStore,
+  type ShoppingPlan,
+} from "@/lib/market/shopping";
+import { DEFAULT_DC } from "@/lib/market/worlds";
+
+/**
+ * 大量採購清單：輸入物品與數量，算出在 DC 內各伺服器怎麼買最便宜，
+ * 並依伺服器分組，盡量少跑幾個伺服器。
+ */
+export function ShoppingList() {
+  const text = useLocalStore(shoppingListStore);
+  const { status: localStatus, items: localItems } = useLocalItemsState();
+  const worldRegistry = useWorldRegistry();
+
+  const [worldOrDc, setWorldOrDc] = useState(DEFAULT_DC);
+  const [visitCost, setVisitCost] = useState(DEFAULT_WORLD_VISIT_COST);
+  const [plan, setPlan] = useState<ShoppingPlan | null>(null);
+  const [names, setNames] = useState<Map<number, string>>(new Map());
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const abortRef = useRef<AbortController | null>(null);
+
+  const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+
+  function nameOf(itemId: number) {
+    return (
+      localItems[String(itemId)]?.name || names.get(itemId) || `#${itemId}`
+    );
+  }
+
+  // ===== Handlers =====
+  async function calculate() {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+
+    try {
+      // 名稱只能靠本地物品資料轉成 ID
+      const index =
+        localStatus === "ready" ? await getSearchIndex(localItems) : null;
+      const parsed = parseShoppingList(text, (name) => {
+        if (!index) return [];
+        // 只看可交易的物品；有完全相同的名稱就不管其他部分符合的
+        const marketable = (id: number) => !!localItems[String(id)]?.marketable;
+        const exact = exactMatches(index, name).filter(marketable);
+        return exact.length
+          ? exact
+          : searchIndex(index, name).filter(marketable);
+      });
+      setErrors(parsed.errors);
+      if (!parsed.lines.length) {
+        setPlan(null);
+        return;
+      }
+
+      const ids = Array.from(new Set(parsed.lines.map((l) => l.itemId)));
+      const snapshots = await fetchPriceSnapshots(
+        worldOrDc,
+        ids,
+        SHOPPING_LISTINGS_PER_ITEM,
+        controller.signal
+      );
+      setPlan(optimizeShoppingList(parsed.lines, snapshots, visitCost));
+      setChecked(new Set());
+
+      const unnamed = ids.filter((id) => !localItems[String(id)]);
+      if (unnamed.length) {
+        const rows = await fetchItemRows(unnamed, controller.signal);
+        setNames(new Map(rows.map((r) => [r.id, r.name])));
+      }
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Shopping list error:", e);
+      toast({ title: "計算失敗", description: "無法取得上架資料" });
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }
+
+  async function copyChecklist() {
+    if (!plan) return;
+    try {
+      await navigator.clipboard.writeText(
+        formatShoppingChecklist(plan, nameOf, gilFmt)
+      );
+      toast({ title: "已複製採購清單" });
+    } catch (e) {
+      console.error("Clipboard error:", e);
+      toast({ title: "複製失敗" });
+    }
+  }
+
+  function toggle(key: string) {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm print:hidden">
+        <div className="container mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/"
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              返回列表
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">採購清單</h1>
+          </div>
+          <WorldSelect
+            registry={worldRegistry}
+            value={worldOrDc}
+            onChange={setWorldOrDc}
+          />
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {/* Input */}
+        <Card className="p-4 space-y-3 print:hidden">
+          <Textarea
+            className="min-h-40 font-mono text-sm"
+            placeholder={
+              "一行一個物品，例如：\n5057 x 99\n鐵礦 30\n36082 10 HQ"
+            }
+            value={text}
+            onChange={(e) => shoppingListStore.set(e.target.value)}
+          />
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              每多跑一個伺服器約等於
+              <Input
+                type="number"
+                min={0}
+                className="h-9 w-28"
+                value={visitCost}
+                onChange={(e) =>
+                  setVisitCost(Math.max(0, Number(e.target.value)))
+                }
+              />
+              gil
+            </label>
+            <button
+              className="h-9 px-4 rounded bg-primary text-primary-foreground hover:bg-primary/90 flex items-center gap-1 disabled:opacity-50"
+              disabled={loading || !text.trim()}
+              onClick={calculate}
+            >
+              {loading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Route className="h-4 w-4" />
+              )}
+              計算
+            </button>
+            {localStatus !== "ready" && (
+              <span className="text-xs text-muted-foreground">
+                沒有本地物品資料時只能輸入物品 ID
+              </span>
+            )}
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-0.5">
+              {errors.map((e) => (
+                <li key={e}>{e}</li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {plan && (
+          <>
+            {/* Summary */}
+            <Card className="p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h2 className="font-semibold">
+                  合計 {gilFmt.format(plan.total)} gil
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    跑 {plan.stops.length} 個伺服器 · 未含 5% 稅
+                  </span>
+                </h2>
+                <div className="flex gap-2 print:hidden">
+                  <button
+                    className="h-9 px-3 rounded border bg-background hover:bg-accent text-sm flex items-center gap-1"
+                    onClick={copyChecklist}
+                  >
+                    <Copy className="h-4 w-4" />
+                    複製
+                  </button>
+                  <button
+                    className="h-9 px-3 rounded border bg-background hover:bg-accent text-sm flex items-center gap-1"
+                    onClick={() => window.print()}
+                  >
+                    <Printer className="h-4 w-4" />
+                    列印
+                  </button>
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>物品</TableHead>
+                    <TableHead className="text-right">需要</TableHead>
+                    <TableHead className="text-right">買到</TableHead>
+                    <TableHead className="text-right">平均單價</TableHead>
+                    <TableHead className="text-right">花費</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.items.map((p) => (
+                    <TableRow key={p.itemId}>
+                      <TableCell>{nameOf(p.itemId)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {p.requested}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-mono ${
+                          p.shortfall > 0 ? "text-destructive" : ""
+                        }`}
+                        title={p.shortfall > 0 ? `還差 ${p.shortfall}` : ""}
+                      >
+                        {p.bought}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {p.bought
+                          ? gilFmt.format(Math.round(p.cost / p.bought))
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {gilFmt.format(p.cost)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+
+            {/* Checklist by World */}
+            <div className="grid gap-4 md:grid-cols-2">
+              {plan.stops.map((stop) => (
+                <Card key={stop.worldName} className="p-4 break-inside-avoid">
+                  <h3 className="font-semibold mb-2 flex justify-between">
+                    {stop.worldName}
+                    <span className="font-mono text-sm">
+                      {gilFmt.format(stop.subtotal)} gil
+                    </span>
+                  </h3>
+                  <ul className="space-y-1.5 text-sm">
+                    {stop.purchases.map((p, i) => {
+                      const key = `${stop.worldName}-${p.listing.listingId || i}`;
+                      return (
+                        <li key={key} className="flex items-center gap-2">
+                          <Checkbox
+                            checked={checked.has(key)}
+                            onCheckedChange={() => toggle(key)}
+                          />
+                          <span
+                            className={`flex-1 truncate ${
+                              checked.has(key)
+                                ? "line-through text-muted-foreground"
+                                : ""
+                            }`}
+                          >
+                            {nameOf(p.itemId)}
+                            {p.listing.hq && (
+                              <span className="ml-1 text-amber-600 dark:text-amber-400">
+                                HQ
+                              </span>
+                            )}{" "}
+                            x{p.listing.quantity}
+                          </span>
+                          <span className="text-xs text-muted-foreground truncate max-w-24">
+                            {p.listing.retainerName}
+                          </span>
+                          <span className="font-mono text-xs">
+                            @{gilFmt.format(p.listing.pricePerUnit)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useLocalStore } from "@/hooks/use-local-store";
+import {
+  CITIES,
+  CITY_LABELS,
+  taxCityStore,
+  type City,
+  type TaxRates,
+} from "@/lib/market/tax";
+
+const selectClass =
+  "h-10 rounded-md border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-ring";
+
+/** 選擇估算買入稅用的城市；有該伺服器的稅率時一併顯示 */
+export function TaxCitySelect({
+  rates,
+  className = selectClass,
+}: {
+  rates: TaxRates | null;
+  className?: string;
+}) {
+  const city = useLocalStore(taxCityStore);
+
+  return (
+    <select
+      className={className}
+      value={city}
+      title="估算買入稅用的城市 (稅由買方支付)"
+      onChange={(e) => taxCityStore.set(e.target.value as City)}
+    >
+      {CITIES.map((c) => (
+        <option key={c} value={c}>
+          {CITY_LABELS[c]}
+          {rates && ` ${Math.round(rates[c] * 100)}%`}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { Bookmark, BookmarkCheck, Plus } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useWatchlists } from "@/hooks/use-watchlists";
+import { createWatchlist, toggleWatchlistItem } from "@/lib/market/watchlists";
+
+/** 卡片上的書籤按鈕：把物品加入 / 移出任一個清單 */
+export function WatchlistMenu({ itemId }: { itemId: number }) {
+  const watchlists = useWatchlists();
+  const inAny = watchlists.some((l) => l.itemIds.includes(itemId));
+
+  function addToNewList() {
+    const name = window.prompt("清單名稱", "我的清單");
+    if (name === null) return;
+    createWatchlist(name, [itemId]);
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`flex items-center hover:text-foreground ${
+            inAny ? "text-primary" : ""
+          }`}
+          title="加入清單"
+        >
+          {inAny ? (
+            <BookmarkCheck className="h-3 w-3" />
+          ) : (
+            <Bookmark className="h-3 w-3" />
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>加入清單</DropdownMenuLabel>
+        {watchlists.map((l) => (
+          <DropdownMenuCheckboxItem
+            key={l.id}
+            checked={l.itemIds.includes(itemId)}
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={() => toggleWatchlistItem(l.id, itemId)}
+          >
+            {l.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {watchlists.length > 0 && <DropdownMenuSeparator />}
+        <DropdownMenuItem onSelect={addToNewList}>
+          <Plus className="h-4 w-4" />
+          新增清單...
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
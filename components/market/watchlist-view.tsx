@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Download,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { MarketItemCard } from "@/components/market/market-item-card";
+import { WorldSelect } from "@/components/market/world-select";
+import { useLocalItems } from "@/hooks/use-local-items";
+import { useToast } from "@/hooks/use-toast";
+import { useWatchlists } from "@/hooks/use-watchlists";
+import { useWorldRegistry } from "@/hooks/use-world-registry";
+import { fetchItemRows, type MarketItem } from "@/lib/market/items";
+import { fetchPriceMap, type PriceInfo } from "@/lib/market/prices";
+import {
+  createWatchlist,
+  deleteWatchlist,
+  exportWatchlists,
+  importWatchlists,
+  renameWatchlist,
+} from "@/lib/market/watchlists";
+import { DEFAULT_DC, isMultiWorldScope } from "@/lib/market/worlds";
+
+// ===== Config / Constants =====
+const BATCH_SIZE = 100;
+
+function downloadJson(filename: string, json: string) {
+  const url = URL.createObjectURL(
+    new Blob([json], { type: "application/json" })
+  );
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function WatchlistView() {
+  const { toast } = useToast();
+  const localItems = useLocalItems();
+  const worldRegistry = useWorldRegistry();
+  const watchlists = useWatchlists();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedWorld, setSelectedWorld] = useState(DEFAULT_DC);
+  const [items, setItems] = useState<MarketItem[]>([]);
+  const [itemsLoading, setItemsLoading] = useState(false);
+  const [priceMap, setPriceMap] = useState<Map<number, PriceInfo>>(new Map());
+  const [priceLoading, setPriceLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const gilFmt = useMemo(() => new Intl.NumberFormat("en-US"), []);
+  const isDCMode = isMultiWorldScope(worldRegistry, selectedWorld);
+
+  const selected =
+    watchlists.find((l) => l.id === selectedId) ?? watchlists[0] ?? null;
+  const itemIdsKey = selected?.itemIds.join(",") ?? "";
+
+  // ===== 1. Item Rows (只抓清單內的 ID) =====
+  useEffect(() => {
+    const ids = itemIdsKey ? itemIdsKey.split(",").map(Number) : [];
+    // 被中止的請求不會自己清掉 loading，清單變空時要在這裡清
+    if (!ids.length) {
+      setItems([]);
+      setItemsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setItemsLoading(true);
+    (async () => {
+      const rows: MarketItem[] = [];
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        rows.push(
+          ...(await fetchItemRows(
+            ids.slice(i, i + BATCH_SIZE),
+            controller.signal
+          ))
+        );
+      }
+      setItems(rows);
+    })()
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error("Watchlist items:", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setItemsLoading(false);
+      });
+    return () => controller.abort();
+  }, [itemIdsKey]);
+
+  // ===== 2. Prices =====
+  useEffect(() => {
+    const ids = itemIdsKey ? itemIdsKey.split(",").map(Number) : [];
+    setPriceMap(new Map());
+    if (!ids.length) {
+      setPriceLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setPriceLoading(true);
+    fetchPriceMap(selectedWorld, ids, controller.signal)
+      .then(setPriceMap)
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error("Watchlist prices:", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setPriceLoading(false);
+      });
+    return () => controller.abort();
+  }, [itemIdsKey, selectedWorld]);
+
+  // ===== Handlers =====
+  function handleCreate() {
+    const name = window.prompt("清單名稱", "我的清單");
+    if (name === null) return;
+    setSelectedId(createWatchlist(name).id);
+  }
+
+  function handleRename(id: string, current: string) {
+    const name = window.prompt("新的清單名稱", current);
+    if (name) renameWatchlist(id, name);
+  }
+
+  function handleDelete(id: string, name: string) {
+    if (window.confirm(`確定要刪除「${name}」？`)) deleteWatchlist(id);
+  }
+
+  async function handleImport(file: File) {
+    try {
+      const count = importWatchlists(await file.text());
+      toast({ title: `已匯入 ${count} 個清單` });
+    } catch (e) {
+      console.error("Watchlist import error:", e);
+      toast({ title: "匯入失敗", description: "檔案格式不正確" });
+    }
+  }
+
+  // 清單裡的順序就是加入的順序
+  const orderedItems = useMemo(() => {
+    const byId = new Map(items.map((it) => [it.id, it]));
+    return (selected?.itemIds ?? [])
+      .map((id) => byId.get(id))
+      .filter((it): it is MarketItem => Boolean(it));
+  }, [items, selected]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/"
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              返回列表
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">我的清單</h1>
+          </div>
+          <WorldSelect
+            registry={worldRegistry}
+            value={selectedWorld}
+            onChange={setSelectedWorld}
+          />
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 grid gap-6 md:grid-cols-[240px_1fr] items-start">
+        {/* Watchlist Sidebar */}
+        <Card className="p-3 space-y-2">
+          <div className="flex gap-1">
+            <button
+              className="flex-1 h-8 px-2 rounded border bg-background hover:bg-accent text-xs flex items-center justify-center gap-1"
+              onClick={handleCreate}
+            >
+              <Plus className="h-3 w-3" />
+              新增
+            </button>
+            <button
+              className="h-8 px-2 rounded border bg-background hover:bg-accent text-xs flex items-center gap-1"
+              onClick={() => fileInputRef.current?.click()}
+              title="匯入 JSON"
+            >
+              <Upload className="h-3 w-3" />
+            </button>
+            <button
+              className="h-8 px-2 rounded border bg-background hover:bg-accent text-xs flex items-center gap-1 disabled:opacity-50"
+              disabled={watchlists.length === 0}
+              onClick={() =>
+                downloadJson("ffxiv-watchlists.json", exportWatchlists())
+              }
+              title="匯出全部"
+            >
+              <Download className="h-3 w-3" />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {watchlists.map((l) => (
+            <div
+              key={l.id}
+              className={`group flex items-center gap-1 rounded px-2 py-1.5 text-sm cursor-pointer ${
+                selected?.id === l.id ? "bg-accent" : "hover:bg-accent/50"
+              }`}
+              onClick={() => setSelectedId(l.id)}
+            >
+              <span className="flex-1 truncate">{l.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {l.itemIds.length}
+              </span>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                title="匯出此清單"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  downloadJson(`${l.name}.json`, exportWatchlists([l]));
+                }}
+              >
+                <Download className="h-3 w-3" />
+              </button>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                title="重新命名"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRename(l.id, l.name);
+                }}
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                title="刪除"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(l.id, l.name);
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+
+          {watchlists.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-4">
+              還沒有清單，在物品卡片上點書籤就能加入
+            </p>
+          )}
+        </Card>
+
+        {/* Watchlist Items */}
+        <div>
+          {itemsLoading ? (
+            <div className="flex justify-center py-20">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : orderedItems.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {orderedItems.map((item) => (
+                <MarketItemCard
+                  key={item.id}
+                  item={item}
+                  price={priceMap.get(item.id)}
+                  gilFmt={gilFmt}
+                  loading={priceLoading}
+                  selectedWorld={selectedWorld}
+                  isDCMode={isDCMode}
+                  localName={localItems[String(item.id)]?.name}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-20 border-2 border-dashed rounded-xl">
+              <p className="text-muted-foreground">
+                {selected ? "這個清單還沒有物品" : "請先建立清單"}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
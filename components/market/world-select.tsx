@@ -0,0 +1,67 @@
+"use client";
+
+import {
+  dataCentersInRegion,
+  getScope,
+  worldsInDataCenter,
+  type WorldRegistry,
+} from "@/lib/market/worlds";
+
+const selectClass =
+  "h-10 rounded-md border border-input bg-background px-3 text-sm focus:ring-2 focus:ring-ring";
+
+/**
+ * 兩段式選擇：先選區域 / 資料中心，再選 DC 內的伺服器。
+ * 回傳的值就是 Universalis 可接受的 worldDcRegion 名稱。
+ */
+export function WorldSelect({
+  registry,
+  value,
+  onChange,
+}: {
+  registry: WorldRegistry;
+  value: string;
+  onChange: (worldOrDc: string) => void;
+}) {
+  const scope = getScope(registry, value);
+  const dcName = scope?.dataCenter;
+  const dcWorlds = dcName ? worldsInDataCenter(registry, dcName) : [];
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        className={selectClass}
+        value={scope?.kind === "region" ? scope.name : (dcName ?? value)}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {!scope && <option value={value}>{value}</option>}
+        {registry.regions.map((region) => (
+          <optgroup key={region} label={region}>
+            <option value={region}>區域: {region} (比價)</option>
+            {dataCentersInRegion(registry, region).map((dc) => (
+              <option key={dc.name} value={dc.name}>
+                DC: {dc.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+
+      {dcName && (
+        <select
+          className={selectClass}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value={dcName}>全 DC (比價)</option>
+          <option disabled>──────────</option>
+          {dcWorlds.map((w) => (
+            <option key={w.id} value={w.name}>
+              {w.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect } from "react";
+import { checkAlertsNow } from "@/lib/market/alerts";
+
+// ===== Config / Constants =====
+const POLL_INTERVAL = 5 * 60 * 1000;
+
+/** 在背景定期重新檢查提醒規則，掛在 layout 上整個 App 只跑一份 */
+export function useAlertPoller() {
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function tick() {
+      try {
+        await checkAlertsNow(controller.signal);
+      } catch (e) {
+        if (!controller.signal.aborted) console.error("Alert poll error:", e);
+      }
+    }
+
+    tick();
+    const timer = setInterval(tick, POLL_INTERVAL);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, []);
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  fetchItemKinds,
+  fetchUICategories,
+  type ItemKind,
+  type UICategory,
+} from "@/lib/market/categories";
+
+export type ItemCategoriesStatus = "loading" | "ready" | "error";
+
+export type ItemCategories = {
+  kinds: ItemKind[];
+  categories: UICategory[];
+  status: ItemCategoriesStatus;
+};
+
+const EMPTY: ItemCategories = { kinds: [], categories: [], status: "loading" };
+
+// 分類表幾乎不會變，整個 App 共用一次請求
+let categoriesPromise: Promise<ItemCategories> | null = null;
+
+async function loadCategories(): Promise<ItemCategories> {
+  try {
+    const [kinds, categories] = await Promise.all([
+      fetchItemKinds(),
+      fetchUICategories(),
+    ]);
+    return { kinds, categories, status: "ready" };
+  } catch (e) {
+    console.error("Item categories load error:", e);
+    categoriesPromise = null; // 下次掛載或 retry 時再試
+    return { ...EMPTY, status: "error" };
+  }
+}
+
+export function useItemCategories() {
+  const [data, setData] = useState<ItemCategories>(EMPTY);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    categoriesPromise ??= loadCategories();
+    categoriesPromise.then((loaded) => {
+      if (active) setData(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, [attempt]);
+
+  const retry = useCallback(() => {
+    setData(EMPTY);
+    setAttempt((n) => n + 1);
+  }, []);
+
+  return { ...data, retry };
+}
@@ -0,0 +1,50 @@
+import { renderHook } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useLatestRequest } from "@/hooks/use-latest-request";
+
+describe("useLatestRequest", () => {
+  it("aborts the previous signal when a new request starts", () => {
+    const { result } = renderHook(() => useLatestRequest());
+    const first = result.current();
+    const second = result.current();
+
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(false);
+  });
+
+  it("drops a response that resolves after being superseded", async () => {
+    const { result } = renderHook(() => useLatestRequest());
+    const state: string[] = [];
+
+    let resolveOld!: (v: string) => void;
+    let resolveNew!: (v: string) => void;
+    const run = (pending: Promise<string>) => {
+      const signal = result.current();
+      return pending.then((v) => {
+        if (!signal.aborted) state.push(v);
+      });
+    };
+
+    const oldRun = run(new Promise((r) => (resolveOld = r)));
+    const newRun = run(new Promise((r) => (resolveNew = r)));
+    resolveNew("page 2");
+    resolveOld("page 1");
+    await Promise.all([oldRun, newRun]);
+
+    expect(state).toEqual(["page 2"]);
+  });
+
+  it("aborts the pending request on unmount", () => {
+    const { result, unmount } = renderHook(() => useLatestRequest());
+    const signal = result.current();
+    unmount();
+    expect(signal.aborted).toBe(true);
+  });
+
+  it("keeps the same function across renders", () => {
+    const { result, rerender } = renderHook(() => useLatestRequest());
+    const first = result.current;
+    rerender();
+    expect(result.current).toBe(first);
+  });
+});
@@ -0,0 +1,21 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * 同一類請求只留最新的一個：每次呼叫回傳一個新的 AbortSignal，
+ * 並中止上一個還沒完成的請求；元件卸載時也一併中止。
+ * 呼叫端在寫入 state 前檢查 `signal.aborted`，舊的回應就不會蓋掉新的。
+ */
+export function useLatestRequest() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+}
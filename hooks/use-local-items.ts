@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  EMPTY_LOCAL_ITEMS,
+  loadLocalItems,
+  type LocalItemsState,
+} from "@/lib/market/local-items";
+
+export type { LocalItemData } from "@/lib/market/local-items";
+
+// items.json 有好幾 MB，整個 App 只讀一次
+let localItemsPromise: Promise<LocalItemsState> | null = null;
+
+function getLocalItems() {
+  localItemsPromise ??= loadLocalItems().catch((e) => {
+    console.error("Local items load error:", e);
+    localItemsPromise = null; // 網路錯誤下次掛載再試
+    return { status: "missing", items: {} } as LocalItemsState;
+  });
+  return localItemsPromise;
+}
+
+/** 本地資料的載入狀態，用來顯示「缺少 items.json」之類的提示 */
+export function useLocalItemsState() {
+  // 這裡與 API 請求脫鉤，單獨管理
+  const [state, setState] = useState<LocalItemsState>(EMPTY_LOCAL_ITEMS);
+
+  useEffect(() => {
+    let active = true;
+    // 抓取本地翻譯檔 (非同步進行，不卡流程)
+    getLocalItems().then((loaded) => {
+      if (active) setState(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return state;
+}
+
+export function useLocalItems() {
+  return useLocalItemsState().items;
+}
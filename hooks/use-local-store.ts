@@ -0,0 +1,8 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { LocalStore } from "@/lib/market/local-store";
+
+export function useLocalStore<T>(store: LocalStore<T>) {
+  return useSyncExternalStore(store.subscribe, store.get, store.getServer);
+}
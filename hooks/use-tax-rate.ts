@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLocalStore } from "@/hooks/use-local-store";
+import {
+  DEFAULT_TAX_RATE,
+  getTaxRates,
+  taxCityStore,
+  type TaxRates,
+} from "@/lib/market/tax";
+import { getScope, type WorldRegistry } from "@/lib/market/worlds";
+
+/**
+ * 目前設定的城市在這個伺服器的稅率。
+ * 稅率是各伺服器分開的，選 DC / 區域時沒有單一答案，就用預設的 5%。
+ */
+export function useTaxRate(registry: WorldRegistry, worldOrDc: string) {
+  const city = useLocalStore(taxCityStore);
+  const [rates, setRates] = useState<TaxRates | null>(null);
+
+  const scope = getScope(registry, worldOrDc);
+  const world = scope?.kind === "world" ? scope.name : null;
+
+  useEffect(() => {
+    setRates(null);
+    if (!world) return;
+    let active = true;
+    getTaxRates(world).then((r) => {
+      if (active) setRates(r);
+    });
+    return () => {
+      active = false;
+    };
+  }, [world]);
+
+  return {
+    city,
+    rate: rates?.[city] ?? DEFAULT_TAX_RATE,
+    rates,
+  };
+}
@@ -0,0 +1,8 @@
+"use client";
+
+import { useLocalStore } from "@/hooks/use-local-store";
+import { watchlistStore } from "@/lib/market/watchlists";
+
+export function useWatchlists() {
+  return useLocalStore(watchlistStore);
+}
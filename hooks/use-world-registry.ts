@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  BUNDLED_WORLD_REGISTRY,
+  buildWorldRegistry,
+  type WorldRegistry,
+} from "@/lib/market/worlds";
+import { fetchDataCenters, fetchWorlds } from "@/lib/universalis/client";
+
+// 整個 App 共用一次請求；失敗就繼續用內建的 world-data.json
+let livePromise: Promise<WorldRegistry | null> | null = null;
+
+async function loadLiveRegistry(): Promise<WorldRegistry | null> {
+  try {
+    const [worlds, dataCenters] = await Promise.all([
+      fetchWorlds(),
+      fetchDataCenters(),
+    ]);
+    return buildWorldRegistry(worlds, dataCenters);
+  } catch (e) {
+    console.error("World registry load error:", e);
+    return null;
+  }
+}
+
+export function useWorldRegistry() {
+  const [registry, setRegistry] = useState<WorldRegistry>(
+    BUNDLED_WORLD_REGISTRY
+  );
+
+  useEffect(() => {
+    let active = true;
+    livePromise ??= loadLiveRegistry();
+    livePromise.then((live) => {
+      if (active && live) setRegistry(live);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return registry;
+}
@@ -0,0 +1,209 @@
+import { z } from "zod";
+import { toast } from "@/hooks/use-toast";
+import { createLocalStore, genLocalId } from "@/lib/market/local-store";
+import {
+  fetchPriceMap,
+  listingsCountOf,
+  type PriceInfo,
+} from "@/lib/market/prices";
+
+// ===== Type Definitions =====
+const alertMetricSchema = z.enum(["minNQ", "minHQ", "minAll", "listings"]);
+const alertComparatorSchema = z.enum(["below", "above"]);
+
+const alertRuleSchema = z.object({
+  id: z.string().min(1),
+  itemId: z.number().int().positive(),
+  itemName: z.string(),
+  worldOrDc: z.string().min(1),
+  metric: alertMetricSchema,
+  comparator: alertComparatorSchema,
+  threshold: z.number().nonnegative(),
+  enabled: z.boolean(),
+  // 上次檢查時是否符合條件；只在「不符合 → 符合」時通知，避免每輪都跳
+  matched: z.boolean(),
+  lastValue: z.number().optional(),
+  lastCheckedAt: z.number().optional(),
+  lastTriggeredAt: z.number().optional(),
+});
+
+export type AlertMetric = z.infer<typeof alertMetricSchema>;
+export type AlertComparator = z.infer<typeof alertComparatorSchema>;
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+
+export type NewAlertRule = Pick<
+  AlertRule,
+  "itemId" | "itemName" | "worldOrDc" | "metric" | "comparator" | "threshold"
+>;
+
+// ===== Config / Constants =====
+const STORAGE_KEY = "ffxiv-market:alerts";
+const EMPTY: AlertRule[] = [];
+
+const gilFmt = new Intl.NumberFormat("en-US");
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  minNQ: "NQ 最低價",
+  minHQ: "HQ 最低價",
+  minAll: "最低價",
+  listings: "上架數",
+};
+
+export const ALERT_COMPARATOR_LABELS: Record<AlertComparator, string> = {
+  below: "低於",
+  above: "高於",
+};
+
+// ===== Store =====
+export const alertStore = createLocalStore(
+  STORAGE_KEY,
+  z.array(alertRuleSchema),
+  EMPTY
+);
+
+// ===== Actions =====
+export function addAlertRule(rule: NewAlertRule) {
+  const next: AlertRule = {
+    ...rule,
+    id: genLocalId(),
+    enabled: true,
+    matched: false,
+  };
+  alertStore.set([...alertStore.get(), next]);
+  return next;
+}
+
+export function updateAlertRule(id: string, patch: Partial<AlertRule>) {
+  alertStore.set(
+    alertStore.get().map((r) => (r.id === id ? { ...r, ...patch } : r))
+  );
+}
+
+export function deleteAlertRule(id: string) {
+  alertStore.set(alertStore.get().filter((r) => r.id !== id));
+}
+
+// ===== Evaluation =====
+export function metricValue(metric: AlertMetric, price: PriceInfo) {
+  return metric === "listings" ? listingsCountOf(price) : price[metric];
+}
+
+/**
+ * 價格為 0 代表沒有該品質的上架，不能當成「低於門檻」。
+ * 上架數則允許 0 (全部賣光也算低於)。
+ */
+export function isRuleMatched(rule: AlertRule, value: number) {
+  if (rule.metric !== "listings" && value <= 0) return false;
+  return rule.comparator === "below"
+    ? value < rule.threshold
+    : value > rule.threshold;
+}
+
+export function describeAlertRule(rule: AlertRule, gilFmt: Intl.NumberFormat) {
+  const value =
+    rule.metric === "listings"
+      ? `${rule.threshold} 筆`
+      : `${gilFmt.format(rule.threshold)} gil`;
+  return `${rule.itemName} @ ${rule.worldOrDc}：${
+    ALERT_METRIC_LABELS[rule.metric]
+  }${ALERT_COMPARATOR_LABELS[rule.comparator]} ${value}`;
+}
+
+/**
+ * 重新檢查所有啟用中的規則 (同一個伺服器的物品合併成一次查詢)，
+ * 回傳這一輪「剛變成符合」的規則。
+ */
+export async function evaluateAlertRules(
+  signal?: AbortSignal
+): Promise<AlertRule[]> {
+  const active = alertStore.get().filter((r) => r.enabled);
+  if (!active.length) return [];
+
+  const idsByWorld = new Map<string, Set<number>>();
+  for (const r of active) {
+    const ids = idsByWorld.get(r.worldOrDc) ?? new Set<number>();
+    ids.add(r.itemId);
+    idsByWorld.set(r.worldOrDc, ids);
+  }
+
+  const pricesByWorld = new Map<string, Map<number, PriceInfo>>();
+  for (const [worldOrDc, ids] of idsByWorld) {
+    try {
+      pricesByWorld.set(
+        worldOrDc,
+        await fetchPriceMap(worldOrDc, Array.from(ids), signal)
+      );
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(`Alert price fetch error (${worldOrDc}):`, e);
+    }
+  }
+
+  const now = Date.now();
+  const triggered: AlertRule[] = [];
+  const patches = new Map<string, Partial<AlertRule>>();
+
+  for (const r of active) {
+    const price = pricesByWorld.get(r.worldOrDc)?.get(r.itemId);
+    if (!price) continue;
+    const value = metricValue(r.metric, price);
+    const matched = isRuleMatched(r, value);
+    const patch: Partial<AlertRule> = {
+      matched,
+      lastValue: value,
+      lastCheckedAt: now,
+    };
+    if (matched && !r.matched) {
+      patch.lastTriggeredAt = now;
+      triggered.push({ ...r, ...patch });
+    }
+    patches.set(r.id, patch);
+  }
+
+  // 以最新的 store 為基準合併，檢查期間使用者新增 / 刪除的規則不會被蓋掉
+  alertStore.set(
+    alertStore
+      .get()
+      .map((r) => (patches.has(r.id) ? { ...r, ...patches.get(r.id) } : r))
+  );
+  return triggered;
+}
+
+// ===== Notification =====
+// Toaster 一次只顯示一則，多條規則同時觸發時合併成一則
+export function notifyAlerts(rules: AlertRule[]) {
+  if (!rules.length) return;
+  const lines = rules.map((r) => describeAlertRule(r, gilFmt));
+
+  toast({
+    title: rules.length === 1 ? "價格提醒" : `${rules.length} 則價格提醒`,
+    description: lines.join("；"),
+  });
+
+  if (
+    typeof Notification !== "undefined" &&
+    Notification.permission === "granted"
+  ) {
+    for (const line of lines) {
+      new Notification("FFXIV 價格提醒", { body: line });
+    }
+  }
+}
+
+// 背景輪詢與「立即檢查」共用同一輪檢查，避免同一條規則被評估兩次、重複通知
+let inFlight: Promise<AlertRule[]> | null = null;
+
+/** 檢查並通知；已經有一輪在跑時直接等那一輪的結果 */
+export function checkAlertsNow(signal?: AbortSignal) {
+  if (!inFlight) {
+    inFlight = evaluateAlertRules(signal)
+      .then((fired) => {
+        notifyAlerts(fired);
+        return fired;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+  return inFlight;
+}
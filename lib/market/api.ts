@@ -0,0 +1,4 @@
+// 瀏覽器端一律透過我們自己的代理 (app/api/*)，由伺服器統一快取上游回應。
+// 圖示仍直接讀 XIVAPI 的 asset，交給瀏覽器與 CDN 快取。
+export const UNIVERSALIS_API = "/api/universalis";
+export const XIVAPI_API = "/api/xivapi";
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { findOpportunities } from "@/lib/market/arbitrage";
+import type { UniversalisListing } from "@/lib/universalis/client";
+
+// ===== Test Helpers =====
+function listing(
+  worldName: string,
+  pricePerUnit: number,
+  hq = false
+): UniversalisListing {
+  return {
+    listingID: `${worldName}-${pricePerUnit}`,
+    pricePerUnit,
+    quantity: 1,
+    total: pricePerUnit,
+    tax: 0,
+    hq,
+    retainerName: "",
+    retainerCity: 0,
+    worldName,
+    materia: [],
+    lastReviewTime: 0,
+  };
+}
+
+const HOME = {
+  minNQ: 1500,
+  minHQ: 0,
+  avgNQ: 0,
+  avgHQ: 0,
+  velocityNQ: 3,
+  velocityHQ: 0,
+};
+
+describe("findOpportunities", () => {
+  it("adds the buyer's tax to the purchase and keeps the full sale price", () => {
+    const [op] = findOpportunities(
+      1,
+      [listing("Tonberry", 1000), listing("Bahamut", 900)],
+      "Bahamut",
+      HOME,
+      0.05
+    );
+    expect(op.buyWorld).toBe("Tonberry");
+    expect(op.sellPrice).toBe(1500);
+    expect(op.netProfit).toBe(1500 - 1050);
+    expect(op.margin).toBeCloseTo(450 / 1000);
+  });
+
+  it("drops a gap the buyer's tax eats up", () => {
+    const found = findOpportunities(
+      1,
+      [listing("Tonberry", 1450)],
+      "Bahamut",
+      HOME,
+      0.05
+    );
+    expect(found).toEqual([]);
+  });
+
+  it("falls back to the average sale price when the home world has no listing", () => {
+    const [op] = findOpportunities(
+      1,
+      [listing("Tonberry", 100, true)],
+      "Bahamut",
+      { ...HOME, minNQ: 0, avgHQ: 300, velocityHQ: 2 },
+      0
+    );
+    expect(op).toMatchObject({ hq: true, sellPrice: 300, netProfit: 200 });
+  });
+});
@@ -0,0 +1,147 @@
+import { minPricesByWorld, summarizeListings } from "@/lib/market/prices";
+import { priceWithTax } from "@/lib/market/tax";
+import {
+  fetchCurrentItems,
+  type UniversalisCurrentItem,
+  type UniversalisListing,
+} from "@/lib/universalis/client";
+
+// ===== Type Definitions =====
+export type ArbitrageOpportunity = {
+  itemId: number;
+  hq: boolean;
+  buyWorld: string;
+  buyPrice: number;
+  sellPrice: number;
+  netProfit: number;
+  margin: number; // netProfit / buyPrice
+  salesPerDay: number;
+};
+
+// 母服上的賣出參考：有上架就跟著最低價，沒有就用近期成交均價
+type HomeMarket = {
+  minNQ: number;
+  minHQ: number;
+  avgNQ: number;
+  avgHQ: number;
+  velocityNQ: number;
+  velocityHQ: number;
+};
+
+// ===== Config / Constants =====
+const DC_LISTINGS_PER_ITEM = 50;
+const HOME_LISTINGS_PER_ITEM = 10;
+
+// ===== Helper Functions =====
+function homeMarketFromEntry(it: UniversalisCurrentItem): HomeMarket {
+  const { minNQ, minHQ } = summarizeListings(it.listings);
+  return {
+    minNQ,
+    minHQ,
+    avgNQ: Math.round(it.averagePriceNQ),
+    avgHQ: Math.round(it.averagePriceHQ),
+    velocityNQ: it.nqSaleVelocity,
+    velocityHQ: it.hqSaleVelocity,
+  };
+}
+
+/**
+ * 對單一物品，找出 DC 內其他伺服器最便宜的 NQ / HQ，
+ * 加上買入時付的稅後與母服賣價比較 (賣方拿到的就是標價)。只回傳有賺的組合。
+ */
+export function findOpportunities(
+  itemId: number,
+  dcListings: UniversalisListing[],
+  homeWorld: string,
+  home: HomeMarket,
+  taxRate: number
+): ArbitrageOpportunity[] {
+  const others = minPricesByWorld(dcListings).filter(
+    (w) => w.worldName !== homeWorld
+  );
+  const result: ArbitrageOpportunity[] = [];
+
+  for (const hq of [false, true]) {
+    const sellPrice = hq ? home.minHQ || home.avgHQ : home.minNQ || home.avgNQ;
+    if (!sellPrice) continue;
+
+    let best: { worldName: string; price: number } | null = null;
+    for (const w of others) {
+      const price = hq ? w.minHQ : w.minNQ;
+      if (price && (!best || price < best.price)) {
+        best = { worldName: w.worldName, price };
+      }
+    }
+    if (!best) continue;
+
+    const netProfit = sellPrice - priceWithTax(best.price, taxRate);
+    if (netProfit <= 0) continue;
+
+    result.push({
+      itemId,
+      hq,
+      buyWorld: best.worldName,
+      buyPrice: best.price,
+      sellPrice,
+      netProfit,
+      margin: netProfit / best.price,
+      salesPerDay: hq ? home.velocityHQ : home.velocityNQ,
+    });
+  }
+
+  return result;
+}
+
+// ===== Scanner =====
+/**
+ * 掃一批 (最多 100 個) 物品：一次查整個 DC 的上架，一次查母服的賣價與銷售速度。
+ * `taxRate` 是估算買入稅用的稅率。
+ */
+export async function scanArbitrageBatch(
+  homeWorld: string,
+  dataCenter: string,
+  itemIds: number[],
+  taxRate: number,
+  signal?: AbortSignal
+): Promise<ArbitrageOpportunity[]> {
+  const [dcEntries, homeEntries] = await Promise.all([
+    fetchCurrentItems(dataCenter, itemIds, {
+      listings: DC_LISTINGS_PER_ITEM,
+      fields: [
+        "items.itemID",
+        "items.listings.pricePerUnit",
+        "items.listings.hq",
+        "items.listings.worldName",
+      ],
+      signal,
+    }),
+    fetchCurrentItems(homeWorld, itemIds, {
+      listings: HOME_LISTINGS_PER_ITEM,
+      fields: [
+        "items.itemID",
+        "items.listings.pricePerUnit",
+        "items.listings.hq",
+        "items.averagePriceNQ",
+        "items.averagePriceHQ",
+        "items.nqSaleVelocity",
+        "items.hqSaleVelocity",
+      ],
+      signal,
+    }),
+  ]);
+
+  const homeById = new Map<number, HomeMarket>();
+  for (const it of homeEntries) {
+    if (it.itemID) homeById.set(it.itemID, homeMarketFromEntry(it));
+  }
+
+  const result: ArbitrageOpportunity[] = [];
+  for (const it of dcEntries) {
+    const home = homeById.get(it.itemID);
+    if (!it.itemID || !home) continue;
+    result.push(
+      ...findOpportunities(it.itemID, it.listings, homeWorld, home, taxRate)
+    );
+  }
+  return result;
+}
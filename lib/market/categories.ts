@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { safeNum } from "@/lib/market/utils";
+import { fetchSheetRows, iconUrl, searchAll } from "@/lib/xivapi/client";
+import { clause, field } from "@/lib/xivapi/query";
+import { iconSchema } from "@/lib/xivapi/schemas";
+
+// ===== Type Definitions =====
+// public/itemKinds.json 的七大類，id 對應 ItemUICategory.OrderMajor
+export type ItemKind = {
+  id: number;
+  name: string;
+};
+
+export type UICategory = {
+  id: number;
+  name: string;
+  iconUrl: string;
+  kind: number; // OrderMajor
+  order: number; // OrderMinor
+};
+
+export type CategoryFilter = {
+  kind: number | null;
+  category: number | null; // ItemUICategory row_id
+};
+
+// 查詢中的分類連同發起請求的 signal 一起記著
+type CategoryIdsEntry = { pending: Promise<number[]>; signal?: AbortSignal };
+
+// ===== Config / Constants =====
+export const ALL_CATEGORIES: CategoryFilter = { kind: null, category: null };
+
+const SEARCH_PAGE_SIZE = 500;
+
+// 同一個分類的物品 ID 查一次就好，切換大類時會重複用到。
+// 查詢中被 abort 的那次不能再給別人共用，下一個呼叫端會重新查
+const categoryIdsCache = new Map<number, CategoryIdsEntry>();
+
+const uiCategoryFields = z.object({
+  Name: z.string().nullish(),
+  Icon: iconSchema.nullish(),
+  OrderMajor: z.number().nullish(),
+  OrderMinor: z.number().nullish(),
+});
+
+// ===== Fetcher =====
+export async function fetchItemKinds(signal?: AbortSignal) {
+  const res = await fetch("/itemKinds.json", { signal });
+  if (!res.ok) throw new Error("Failed to load item kinds");
+  const data: Record<string, ItemKind> = await res.json();
+  return Object.values(data).sort((a, b) => a.id - b.id);
+}
+
+export async function fetchUICategories(
+  signal?: AbortSignal
+): Promise<UICategory[]> {
+  const rows = await fetchSheetRows("ItemUICategory", {
+    fields: ["Name", "Icon", "OrderMajor", "OrderMinor"],
+    schema: uiCategoryFields,
+    limit: 500,
+    signal,
+  });
+
+  return rows
+    .map((row) => ({
+      id: row.row_id,
+      name: row.fields.Name || "",
+      iconUrl: iconUrl(row.fields.Icon),
+      kind: safeNum(row.fields.OrderMajor),
+      order: safeNum(row.fields.OrderMinor),
+    }))
+    .filter((c) => c.id > 0 && c.name && c.kind > 0)
+    .sort((a, b) => a.kind - b.kind || a.order - b.order);
+}
+
+/**
+ * 用 XIVAPI search 找出某個 ItemUICategory 底下的所有物品，
+ * 跟著 `next` cursor 一頁一頁抓完。
+ */
+async function loadCategoryItemIds(
+  categoryId: number,
+  signal?: AbortSignal
+): Promise<number[]> {
+  const results = await searchAll({
+    sheets: ["Item"],
+    query: [clause("ItemUICategory", "=", categoryId)],
+    fields: [field("ItemUICategory", { raw: true })],
+    schema: z.object({}),
+    limit: SEARCH_PAGE_SIZE,
+    signal,
+  });
+  return results.map((r) => r.row_id);
+}
+
+export function fetchCategoryItemIds(
+  categoryId: number,
+  signal?: AbortSignal
+): Promise<number[]> {
+  const cached = categoryIdsCache.get(categoryId);
+  if (cached && !cached.signal?.aborted) return cached.pending;
+
+  const entry: CategoryIdsEntry = {
+    pending: loadCategoryItemIds(categoryId, signal).then(
+      (ids) => {
+        entry.signal = undefined; // 查完之後 abort 也不影響結果
+        return ids;
+      },
+      (e) => {
+        if (categoryIdsCache.get(categoryId) === entry) {
+          categoryIdsCache.delete(categoryId);
+        }
+        throw e;
+      }
+    ),
+    signal,
+  };
+  categoryIdsCache.set(categoryId, entry);
+  return entry.pending;
+}
+
+/**
+ * 把篩選條件換成物品 ID 集合；沒有選分類時回傳 null (不篩選)。
+ * 選大類時逐一抓底下的小分類再合併，每個小分類都能各自被快取。
+ */
+export async function resolveCategoryIds(
+  filter: CategoryFilter,
+  categories: UICategory[],
+  signal?: AbortSignal
+): Promise<Set<number> | null> {
+  const targets =
+    filter.category !== null
+      ? [filter.category]
+      : filter.kind !== null
+        ? categories.filter((c) => c.kind === filter.kind).map((c) => c.id)
+        : null;
+  if (!targets) return null;
+
+  const result = new Set<number>();
+  for (const id of targets) {
+    signal?.throwIfAborted();
+    for (const itemId of await fetchCategoryItemIds(id, signal))
+      result.add(itemId);
+  }
+  return result;
+}
@@ -0,0 +1,62 @@
+import { formatDistanceStrict } from "date-fns";
+import { zhTW } from "date-fns/locale";
+
+// ===== Type Definitions =====
+export type FreshnessLevel = "fresh" | "aging" | "stale" | "unknown";
+
+// 過舊資料的處理方式：照常顯示、排到最後、直接隱藏
+export type StaleMode = "show" | "demote" | "hide";
+
+// ===== Config / Constants =====
+// 超過這個時數沒人上傳，價格就不太可信
+export const DEFAULT_STALE_HOURS = 48;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const STALE_MODE_LABELS: Record<StaleMode, string> = {
+  show: "照常顯示",
+  demote: "排到最後",
+  hide: "隱藏",
+};
+
+export const FRESHNESS_CLASSES: Record<FreshnessLevel, string> = {
+  fresh: "text-emerald-600 dark:text-emerald-400",
+  aging: "text-muted-foreground",
+  stale: "text-amber-600 dark:text-amber-400",
+  unknown: "text-muted-foreground/60",
+};
+
+// ===== Helpers =====
+/** 沒有上傳時間一律當作過舊 */
+export function isStale(
+  lastUploadTime: number | undefined,
+  staleHours = DEFAULT_STALE_HOURS,
+  now = Date.now()
+) {
+  return !lastUploadTime || now - lastUploadTime > staleHours * HOUR_MS;
+}
+
+/** 門檻的四分之一以內算新鮮，超過門檻算過舊，中間是「有點舊」 */
+export function freshnessLevel(
+  lastUploadTime: number | undefined,
+  staleHours = DEFAULT_STALE_HOURS,
+  now = Date.now()
+): FreshnessLevel {
+  if (!lastUploadTime) return "unknown";
+  const age = now - lastUploadTime;
+  if (age > staleHours * HOUR_MS) return "stale";
+  if (age > (staleHours * HOUR_MS) / 4) return "aging";
+  return "fresh";
+}
+
+/** 例如「3 小時前」；沒有資料時回傳「從未上傳」 */
+export function formatUploadAge(
+  lastUploadTime: number | undefined,
+  now = Date.now()
+) {
+  if (!lastUploadTime) return "從未上傳";
+  return formatDistanceStrict(Math.min(lastUploadTime, now), now, {
+    addSuffix: true,
+    locale: zhTW,
+  });
+}
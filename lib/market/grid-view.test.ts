@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GRID_VIEW,
+  applyGridView,
+  parseDecimal,
+  parseWholeNumber,
+  type GridFilters,
+  type GridView,
+} from "@/lib/market/grid-view";
+import type { PriceInfo } from "@/lib/market/prices";
+
+// ===== Test Helpers =====
+function price(partial: Partial<PriceInfo>): PriceInfo {
+  return {
+    minAll: 0,
+    minNQ: 0,
+    minHQ: 0,
+    listingsFetched: 0,
+    lastUploadTime: Date.now(),
+    depth: [],
+    ...partial,
+  };
+}
+
+function filtered(
+  filters: Partial<GridFilters>,
+  prices: Map<number, PriceInfo>
+) {
+  return applyGridView(
+    Array.from(prices.keys()),
+    {
+      ...DEFAULT_GRID_VIEW,
+      filters: { ...DEFAULT_GRID_VIEW.filters, ...filters },
+    },
+    prices,
+    new Map()
+  );
+}
+
+// ===== Parsers =====
+describe("parseWholeNumber / parseDecimal", () => {
+  it("treats empty input as no filter", () => {
+    expect(parseWholeNumber("")).toBeNull();
+    expect(parseWholeNumber(null)).toBeNull();
+    expect(parseDecimal("")).toBeNull();
+  });
+
+  it("only accepts whole numbers for prices and counts", () => {
+    expect(parseWholeNumber("12000")).toBe(12000);
+    expect(parseWholeNumber("1.5")).toBeNull();
+    expect(parseWholeNumber("-1")).toBeNull();
+    expect(parseWholeNumber("0", 1)).toBeNull();
+  });
+
+  it("accepts decimals where the URL does", () => {
+    expect(parseDecimal("1.5")).toBe(1.5);
+    expect(parseDecimal("-0.5")).toBeNull();
+    expect(parseDecimal("abc")).toBeNull();
+  });
+});
+
+// ===== Filters =====
+describe("applyGridView filters", () => {
+  const prices = new Map([
+    [1, price({ minAll: 100, minHQ: 500 })],
+    [2, price({ minAll: 1000 })],
+    [3, price({ minAll: 5000, minHQ: 6000 })],
+  ]);
+
+  it("keeps items inside the price range", () => {
+    expect(filtered({ minPrice: 500, maxPrice: 5000 }, prices)).toEqual([2, 3]);
+  });
+
+  it("uses the HQ price for the range when only HQ is shown", () => {
+    expect(filtered({ onlyHQ: true, maxPrice: 1000 }, prices)).toEqual([1]);
+  });
+
+  it("counts listings with Universalis listingsCount", () => {
+    const counted = new Map([
+      [
+        1,
+        price({
+          minAll: 10,
+          listingsFetched: 20,
+          stats: {
+            velocityNQ: 0,
+            velocityHQ: 0,
+            averagePrice: 0,
+            unitsForSale: 0,
+            listingsCount: 80,
+          },
+        }),
+      ],
+      [2, price({ minAll: 10, listingsFetched: 20 })],
+    ]);
+    expect(filtered({ minListings: 50 }, counted)).toEqual([1]);
+  });
+});
+
+// ===== Sorting =====
+describe("applyGridView sorting", () => {
+  function sorted(
+    sortKey: GridView["sortKey"],
+    sortDesc: boolean,
+    prices: Map<number, PriceInfo>
+  ) {
+    return applyGridView(
+      Array.from(prices.keys()),
+      { ...DEFAULT_GRID_VIEW, sortKey, sortDesc },
+      prices,
+      new Map()
+    );
+  }
+
+  function stats(velocity: number, averagePrice: number, unitsForSale: number) {
+    return {
+      velocityNQ: velocity,
+      velocityHQ: 0,
+      averagePrice,
+      unitsForSale,
+      listingsCount: unitsForSale,
+    };
+  }
+
+  it("puts items without a price last in both directions", () => {
+    const prices = new Map([
+      [1, price({ minAll: 0 })],
+      [2, price({ minAll: 300 })],
+      [3, price({ minAll: 100 })],
+    ]);
+    expect(sorted("minAll", false, prices)).toEqual([3, 2, 1]);
+    expect(sorted("minAll", true, prices)).toEqual([2, 3, 1]);
+  });
+
+  it("sorts a zero spread as a real value", () => {
+    const prices = new Map([
+      [1, price({ minAll: 90, stats: stats(1, 100, 1) })], // -10%
+      [2, price({ minAll: 100, stats: stats(1, 100, 1) })], // 0%
+      [3, price({ minAll: 120, stats: stats(1, 100, 1) })], // +20%
+      [4, price({ minAll: 100 })], // 沒有統計
+    ]);
+    expect(sorted("spread", false, prices)).toEqual([1, 2, 3, 4]);
+    expect(sorted("spread", true, prices)).toEqual([3, 2, 1, 4]);
+  });
+
+  it("ranks zero days of supply ahead of slower sellers", () => {
+    const prices = new Map([
+      [1, price({ minAll: 10, stats: stats(2, 10, 10) })], // 5 天
+      [2, price({ minAll: 10, stats: stats(2, 10, 0) })], // 0 天
+      [3, price({ minAll: 10, stats: stats(0, 10, 10) })], // 賣不動
+    ]);
+    expect(sorted("daysOfSupply", false, prices)).toEqual([2, 1, 3]);
+  });
+});
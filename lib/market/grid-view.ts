@@ -0,0 +1,202 @@
+import {
+  DEFAULT_STALE_HOURS,
+  isStale,
+  type StaleMode,
+} from "@/lib/market/freshness";
+import { computeMarketHealth } from "@/lib/market/health";
+import { costForQuantity } from "@/lib/market/quantity";
+import { listingsCountOf, type PriceInfo } from "@/lib/market/prices";
+
+// ===== Type Definitions =====
+export type GridSortKey =
+  | "default"
+  | "minAll"
+  | "minHQ"
+  | "listings"
+  | "lastUpload"
+  | "itemLevel"
+  | "quantityCost"
+  | "salesPerDay"
+  | "daysOfSupply"
+  | "spread";
+
+export type GridFilters = {
+  minPrice: number | null;
+  maxPrice: number | null;
+  minListings: number | null;
+  minSalesPerDay: number | null;
+  onlyHQ: boolean;
+};
+
+export type GridView = {
+  sortKey: GridSortKey;
+  sortDesc: boolean;
+  filters: GridFilters;
+  staleMode: StaleMode;
+  staleHours: number; // 最後上傳超過幾小時算過舊
+  quantity: number; // 要買幾個；大於 1 時價格改看最便宜 N 個的平均
+};
+
+// ===== Config / Constants =====
+export const DEFAULT_GRID_FILTERS: GridFilters = {
+  minPrice: null,
+  maxPrice: null,
+  minListings: null,
+  minSalesPerDay: null,
+  onlyHQ: false,
+};
+
+export const DEFAULT_GRID_VIEW: GridView = {
+  sortKey: "default",
+  sortDesc: false,
+  filters: DEFAULT_GRID_FILTERS,
+  staleMode: "show",
+  staleHours: DEFAULT_STALE_HOURS,
+  quantity: 1,
+};
+
+export const GRID_SORT_LABELS: Record<GridSortKey, string> = {
+  default: "預設順序",
+  minAll: "最低價",
+  minHQ: "HQ 最低價",
+  listings: "上架數",
+  lastUpload: "最後更新",
+  itemLevel: "物品等級",
+  quantityCost: "買 N 個均價",
+  salesPerDay: "每日銷量",
+  daysOfSupply: "庫存天數",
+  spread: "價差",
+};
+
+// ===== Helpers =====
+// 輸入框與網址參數共用同一套解析，這樣輸入的值重新整理或分享後還在。
+// 空字串或不合法的值都當成沒填 (null)
+export function parseWholeNumber(raw: string | null, min = 0) {
+  if (raw === null || raw === "") return null;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= min ? n : null;
+}
+
+/** 與 parseWholeNumber 相同但允許小數 (例如每日銷量) */
+export function parseDecimal(raw: string | null, min = 0) {
+  if (raw === null || raw === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= min ? n : null;
+}
+
+export function hasActiveFilters(f: GridFilters) {
+  return (
+    f.minPrice !== null ||
+    f.maxPrice !== null ||
+    f.minListings !== null ||
+    f.minSalesPerDay !== null ||
+    f.onlyHQ
+  );
+}
+
+/** 除了預設順序與物品等級，排序或篩選 (含過舊資料) 都要整個結果集的價格 */
+export function needsFullPrices(view: GridView) {
+  return (
+    hasActiveFilters(view.filters) ||
+    view.staleMode !== "show" ||
+    (view.sortKey !== "default" && view.sortKey !== "itemLevel")
+  );
+}
+
+// 回傳 null 代表沒有資料；價格 0 表示沒上架，其餘 0 (價差、庫存天數等) 是真實數值
+function sortValue(
+  view: GridView,
+  price: PriceInfo | undefined,
+  level: number | undefined
+): number | null {
+  const key = view.sortKey;
+  switch (key) {
+    case "minAll":
+      return price?.minAll || null;
+    case "minHQ":
+      return price?.minHQ || null;
+    case "listings":
+      return price ? listingsCountOf(price) : null;
+    case "lastUpload":
+      return price?.lastUploadTime || null;
+    case "itemLevel":
+      return level ?? null;
+    case "quantityCost":
+      return price
+        ? (costForQuantity(price.depth, view.quantity, view.filters.onlyHQ)
+            ?.average ?? null)
+        : null;
+    case "salesPerDay":
+    case "daysOfSupply":
+    case "spread": {
+      const health = price && computeMarketHealth(price);
+      return health ? health[key] : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function matchesFilters(f: GridFilters, price: PriceInfo | undefined) {
+  if (!hasActiveFilters(f)) return true;
+  if (!price) return false;
+  if (f.onlyHQ && !price.minHQ) return false;
+  if (f.minListings !== null && listingsCountOf(price) < f.minListings)
+    return false;
+  if (f.minSalesPerDay !== null) {
+    const health = computeMarketHealth(price);
+    if (!health || health.salesPerDay < f.minSalesPerDay) return false;
+  }
+
+  // 勾選只看 HQ 時，價格區間也以 HQ 最低價為準
+  const p = f.onlyHQ ? price.minHQ : price.minAll;
+  if (f.minPrice !== null && (!p || p < f.minPrice)) return false;
+  if (f.maxPrice !== null && (!p || p > f.maxPrice)) return false;
+  return true;
+}
+
+/**
+ * 依排序與篩選條件重排物品 ID。
+ * 沒有資料 (沒上架、抓不到價格) 的物品不論升降冪都排在最後；
+ * 過舊資料依 `staleMode` 隱藏或排到更後面。
+ */
+export function applyGridView(
+  ids: number[],
+  view: GridView,
+  prices: Map<number, PriceInfo>,
+  levels: Map<number, number>
+): number[] {
+  const now = Date.now();
+  const stale = (id: number) =>
+    isStale(prices.get(id)?.lastUploadTime, view.staleHours, now);
+
+  let filtered = ids.filter((id) =>
+    matchesFilters(view.filters, prices.get(id))
+  );
+  if (view.staleMode === "hide") {
+    filtered = filtered.filter((id) => !stale(id));
+  }
+
+  let sorted = filtered;
+  if (view.sortKey !== "default") {
+    const dir = view.sortDesc ? -1 : 1;
+    const keyed = filtered.map((id) => ({
+      id,
+      v: sortValue(view, prices.get(id), levels.get(id)),
+    }));
+    keyed.sort((a, b) => {
+      if (a.v === null || b.v === null) {
+        return (a.v === null ? 1 : 0) - (b.v === null ? 1 : 0);
+      }
+      return (a.v - b.v) * dir;
+    });
+    sorted = keyed.map((k) => k.id);
+  }
+
+  // 穩定地把過舊的搬到最後，新鮮的部分維持原本的排序
+  if (view.staleMode === "demote") {
+    const fresh = sorted.filter((id) => !stale(id));
+    return fresh.concat(sorted.filter(stale));
+  }
+  return sorted;
+}
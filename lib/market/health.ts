@@ -0,0 +1,40 @@
+import { DEFAULT_STALE_HOURS, isStale } from "@/lib/market/freshness";
+import type { PriceInfo } from "@/lib/market/prices";
+
+// ===== Type Definitions =====
+export type MarketHealth = {
+  salesPerDay: number;
+  salesPerDayNQ: number;
+  salesPerDayHQ: number;
+  averagePrice: number; // 近期成交均價
+  daysOfSupply: number | null; // 在架數量 ÷ 每天賣出數量；null 表示賣不動
+  spread: number | null; // 最低上架價相對成交均價，-0.1 代表比均價便宜 10%
+  stale: boolean;
+};
+
+// ===== Calculator =====
+/** 沒有成交統計 (例如只抓了最低價) 時回傳 null */
+export function computeMarketHealth(
+  price: PriceInfo,
+  staleHours = DEFAULT_STALE_HOURS,
+  now = Date.now()
+): MarketHealth | null {
+  const stats = price.stats;
+  if (!stats) return null;
+
+  const salesPerDay = stats.velocityNQ + stats.velocityHQ;
+  const supply = stats.unitsForSale || stats.listingsCount;
+
+  return {
+    salesPerDay,
+    salesPerDayNQ: stats.velocityNQ,
+    salesPerDayHQ: stats.velocityHQ,
+    averagePrice: stats.averagePrice,
+    daysOfSupply: salesPerDay > 0 ? supply / salesPerDay : null,
+    spread:
+      stats.averagePrice > 0 && price.minAll > 0
+        ? price.minAll / stats.averagePrice - 1
+        : null,
+    stale: isStale(price.lastUploadTime, staleHours, now),
+  };
+}
@@ -0,0 +1,132 @@
+import { fetchHistory, type UniversalisSale } from "@/lib/universalis/client";
+
+// ===== Type Definitions =====
+export type SaleEntry = {
+  hq: boolean;
+  pricePerUnit: number;
+  quantity: number;
+  timestamp: number; // Universalis 給的是「秒」
+  worldName?: string;
+  buyerName?: string;
+};
+
+export type HistoryGranularity = "day" | "hour";
+
+export type HistoryBucket = {
+  time: number; // bucket 起始時間 (ms)
+  avg: number;
+  min: number;
+  max: number;
+  volume: number;
+  avgNQ: number;
+  avgHQ: number;
+  volumeNQ: number;
+  volumeHQ: number;
+  sales: number;
+};
+
+// ===== Config / Constants =====
+const HISTORY_ENTRIES = 1800;
+const HISTORY_WITHIN_SECONDS = 30 * 24 * 60 * 60;
+
+// ===== Fetcher =====
+export async function fetchSaleHistory(
+  worldOrDc: string,
+  itemId: number,
+  signal?: AbortSignal
+): Promise<SaleEntry[]> {
+  const entries = await fetchHistory(worldOrDc, itemId, {
+    entriesToReturn: HISTORY_ENTRIES,
+    entriesWithin: HISTORY_WITHIN_SECONDS,
+    signal,
+  });
+  return entries
+    .map(parseSaleEntry)
+    .filter((e) => e.pricePerUnit > 0 && e.timestamp > 0);
+}
+
+// history 的 entries 與 current data 的 recentHistory 是同一個形狀
+export function parseSaleEntry(e: UniversalisSale): SaleEntry {
+  return {
+    hq: e.hq,
+    pricePerUnit: e.pricePerUnit,
+    quantity: e.quantity || 1,
+    timestamp: e.timestamp,
+    worldName: e.worldName || undefined,
+    buyerName: e.buyerName || undefined,
+  };
+}
+
+// ===== Aggregation =====
+function bucketStart(ms: number, granularity: HistoryGranularity) {
+  const d = new Date(ms);
+  d.setMinutes(0, 0, 0);
+  if (granularity === "day") d.setHours(0);
+  return d.getTime();
+}
+
+/**
+ * 把成交紀錄依日/小時分桶。平均價以數量加權 (買 99 個的那筆比買 1 個的重要)，
+ * min/max 則看單價。結果依時間由舊到新排序，可以直接丟給 recharts。
+ */
+export function aggregateHistory(
+  entries: SaleEntry[],
+  granularity: HistoryGranularity
+): HistoryBucket[] {
+  type Acc = {
+    min: number;
+    max: number;
+    gilNQ: number;
+    gilHQ: number;
+    volumeNQ: number;
+    volumeHQ: number;
+    sales: number;
+  };
+  const buckets = new Map<number, Acc>();
+
+  for (const e of entries) {
+    const key = bucketStart(e.timestamp * 1000, granularity);
+    let acc = buckets.get(key);
+    if (!acc) {
+      acc = {
+        min: Infinity,
+        max: 0,
+        gilNQ: 0,
+        gilHQ: 0,
+        volumeNQ: 0,
+        volumeHQ: 0,
+        sales: 0,
+      };
+      buckets.set(key, acc);
+    }
+
+    acc.min = Math.min(acc.min, e.pricePerUnit);
+    acc.max = Math.max(acc.max, e.pricePerUnit);
+    acc.sales += 1;
+    if (e.hq) {
+      acc.gilHQ += e.pricePerUnit * e.quantity;
+      acc.volumeHQ += e.quantity;
+    } else {
+      acc.gilNQ += e.pricePerUnit * e.quantity;
+      acc.volumeNQ += e.quantity;
+    }
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([time, acc]) => {
+      const volume = acc.volumeNQ + acc.volumeHQ;
+      return {
+        time,
+        avg: volume ? Math.round((acc.gilNQ + acc.gilHQ) / volume) : 0,
+        min: acc.min === Infinity ? 0 : acc.min,
+        max: acc.max,
+        volume,
+        avgNQ: acc.volumeNQ ? Math.round(acc.gilNQ / acc.volumeNQ) : 0,
+        avgHQ: acc.volumeHQ ? Math.round(acc.gilHQ / acc.volumeHQ) : 0,
+        volumeNQ: acc.volumeNQ,
+        volumeHQ: acc.volumeHQ,
+        sales: acc.sales,
+      };
+    });
+}
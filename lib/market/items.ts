@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { cachedBatch, createQueryCache } from "@/lib/market/query-cache";
+import { safeNum } from "@/lib/market/utils";
+import { fetchMarketable } from "@/lib/universalis/client";
+import {
+  fetchSheetRow,
+  fetchSheetRows,
+  iconUrl,
+  searchSheets,
+} from "@/lib/xivapi/client";
+import { clause, field } from "@/lib/xivapi/query";
+import { iconSchema, linkSchema } from "@/lib/xivapi/schemas";
+
+// ===== Type Definitions =====
+export interface MarketItem {
+  id: number;
+  name: string; // 這裡存 API 原本給的名稱 (通常是英文)
+  iconUrl: string;
+}
+
+export type ItemMeta = {
+  id: number;
+  name: string;
+  iconUrl: string;
+  description: string;
+  itemLevel: number;
+  equipLevel: number;
+  category?: string;
+  stackSize: number;
+  canBeHq: boolean;
+};
+
+const ITEM_BATCH_SIZE = 100;
+const SEARCH_LIMIT = 500;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// 名稱與圖示幾乎不會變 (改版才會)，放一天再重新驗證
+export const itemRowCache = createQueryCache<MarketItem>("item-rows", {
+  ttlMs: DAY,
+  maxAgeMs: 30 * DAY,
+});
+
+const itemRowFields = z.object({
+  Name: z.string().nullish(),
+  Icon: iconSchema.nullish(),
+});
+
+const itemLevelFields = z.object({
+  "LevelItem@as(raw)": z.number().nullish(),
+});
+
+const itemMetaFields = z.object({
+  Name: z.string().nullish(),
+  Icon: iconSchema.nullish(),
+  Description: z.string().nullish(),
+  "LevelItem@as(raw)": z.number().nullish(),
+  LevelEquip: z.number().nullish(),
+  ItemUICategory: linkSchema(
+    z.object({ Name: z.string().nullish() })
+  ).nullish(),
+  StackSize: z.number().nullish(),
+  CanBeHq: z.boolean().nullish(),
+});
+
+// ===== Fetcher =====
+export function fetchMarketableIds(signal?: AbortSignal): Promise<number[]> {
+  return fetchMarketable({ signal });
+}
+
+/**
+ * 一次抓一批物品的名稱與圖示。
+ * 這裡只負責存下 API 的原始資料 (英文)，翻譯交給 Render 層查 localItems。
+ */
+export async function fetchItemRows(
+  itemIds: number[],
+  signal?: AbortSignal
+): Promise<MarketItem[]> {
+  const rows = await fetchSheetRows("Item", {
+    rows: itemIds,
+    fields: ["Name", "Icon"],
+    schema: itemRowFields,
+    signal,
+  });
+
+  return rows.map((row) => ({
+    id: row.row_id,
+    name: row.fields.Name ?? "",
+    iconUrl: iconUrl(row.fields.Icon),
+  }));
+}
+
+/**
+ * 與 fetchItemRows 相同，但先用快取回呼一次再背景重新驗證 (見 cachedBatch)。
+ * 回傳與回呼的順序都跟 `itemIds` 一樣；快取完全沒有時不會先回呼空陣列。
+ */
+export async function fetchItemRowsCached(
+  itemIds: number[],
+  onData: (rows: MarketItem[]) => void,
+  signal?: AbortSignal
+): Promise<MarketItem[]> {
+  const ordered = (byId: Map<number, MarketItem>) =>
+    itemIds.flatMap((id) => byId.get(id) ?? []);
+
+  const byId = await cachedBatch(
+    itemRowCache,
+    "Item",
+    itemIds,
+    async (ids) =>
+      new Map((await fetchItemRows(ids, signal)).map((row) => [row.id, row])),
+    (data, done) => {
+      if (!signal?.aborted && (done || data.size)) onData(ordered(data));
+    }
+  );
+  return ordered(byId);
+}
+
+/**
+ * 沒有本地資料時的退路：用 XIVAPI 的英文 / 日文名稱搜尋。
+ * 純數字直接當成物品 ID。
+ */
+export async function searchItemsRemote(
+  query: string,
+  signal?: AbortSignal
+): Promise<number[]> {
+  const q = query.trim();
+  if (/^\d+$/.test(q)) return [Number(q)];
+
+  const { results } = await searchSheets({
+    sheets: ["Item"],
+    query: [clause("Name", "~", q)],
+    fields: ["Name"],
+    schema: z.object({}),
+    limit: SEARCH_LIMIT,
+    signal,
+  });
+  return results.map((r) => r.row_id);
+}
+
+/** 物品等級 (排序用)，一次 100 個分批查 */
+export async function fetchItemLevels(
+  itemIds: number[],
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<number, number>> {
+  const result = new Map<number, number>();
+
+  for (let i = 0; i < itemIds.length; i += ITEM_BATCH_SIZE) {
+    const rows = await fetchSheetRows("Item", {
+      rows: itemIds.slice(i, i + ITEM_BATCH_SIZE),
+      fields: [field("LevelItem", { raw: true })],
+      schema: itemLevelFields,
+      signal,
+    });
+    for (const row of rows) {
+      result.set(row.row_id, safeNum(row.fields["LevelItem@as(raw)"]));
+    }
+    onProgress?.(Math.min(i + ITEM_BATCH_SIZE, itemIds.length), itemIds.length);
+  }
+  return result;
+}
+
+export async function fetchItemMeta(
+  itemId: number,
+  signal?: AbortSignal
+): Promise<ItemMeta> {
+  const row = await fetchSheetRow("Item", itemId, {
+    fields: [
+      "Name",
+      "Icon",
+      "Description",
+      field("LevelItem", { raw: true }),
+      "LevelEquip",
+      "ItemUICategory.Name",
+      "StackSize",
+      "CanBeHq",
+    ],
+    schema: itemMetaFields,
+    signal,
+  });
+  const f = row.fields;
+
+  return {
+    id: row.row_id,
+    name: f.Name || `#${itemId}`,
+    iconUrl: iconUrl(f.Icon),
+    description: f.Description || "",
+    itemLevel: safeNum(f["LevelItem@as(raw)"]),
+    equipLevel: safeNum(f.LevelEquip),
+    category: f.ItemUICategory?.fields?.Name ?? undefined,
+    stackSize: safeNum(f.StackSize, 1),
+    canBeHq: Boolean(f.CanBeHq),
+  };
+}
@@ -0,0 +1,91 @@
+import { parseSaleEntry, type SaleEntry } from "@/lib/market/history";
+import { safeNum } from "@/lib/market/utils";
+import { fetchCurrentItems } from "@/lib/universalis/client";
+
+// ===== Type Definitions =====
+export type Listing = {
+  listingId: string;
+  pricePerUnit: number;
+  quantity: number;
+  total: number;
+  tax: number;
+  hq: boolean;
+  retainerName: string;
+  retainerCity: number;
+  worldName: string;
+  materia: { slotId: number; materiaId: number }[];
+  lastReviewTime: number; // 秒
+};
+
+export type ItemMarket = {
+  itemId: number;
+  listings: Listing[];
+  recentHistory: SaleEntry[];
+  lastUploadTime?: number; // 毫秒
+  worldUploadTimes: Record<number, number>; // 伺服器 ID → 毫秒，只有 DC / 區域才有
+};
+
+// ===== Config / Constants =====
+const DETAIL_LISTINGS = 100;
+const DETAIL_ENTRIES = 20;
+
+// ===== Fetcher =====
+/**
+ * 單一物品的完整市場資料 (不像列表頁只取最低價)。
+ * 查單一伺服器時 listings 不帶 worldName，改用回應最外層的 worldName 補上。
+ */
+export async function fetchItemMarket(
+  worldOrDc: string,
+  itemId: number,
+  signal?: AbortSignal
+): Promise<ItemMarket> {
+  const [data] = await fetchCurrentItems(worldOrDc, [itemId], {
+    listings: DETAIL_LISTINGS,
+    entries: DETAIL_ENTRIES,
+    signal,
+  });
+  if (!data) throw new Error(`Universalis Error: no data for ${itemId}`);
+
+  const fallbackWorld = data.worldName;
+  const listings: Listing[] = data.listings.map((l) => ({
+    listingId: l.listingID,
+    pricePerUnit: l.pricePerUnit,
+    quantity: l.quantity || 1,
+    total: l.total,
+    tax: l.tax,
+    hq: l.hq,
+    retainerName: l.retainerName,
+    retainerCity: l.retainerCity,
+    worldName: l.worldName || fallbackWorld,
+    materia: l.materia.map((m) => ({
+      slotId: m.slotID,
+      materiaId: m.materiaID,
+    })),
+    lastReviewTime: l.lastReviewTime,
+  }));
+
+  const recentHistory: SaleEntry[] = data.recentHistory
+    .map(parseSaleEntry)
+    .map((e) => ({ ...e, worldName: e.worldName || fallbackWorld }));
+
+  return {
+    itemId: data.itemID || itemId,
+    listings,
+    recentHistory,
+    lastUploadTime: data.lastUploadTime || undefined,
+    worldUploadTimes: parseWorldUploadTimes(data.worldUploadTimes),
+  };
+}
+
+function parseWorldUploadTimes(
+  raw: Record<string, number>
+): Record<number, number> {
+  const result: Record<number, number> = {};
+  for (const [worldId, time] of Object.entries(raw)) {
+    // key 是字串，要先轉成數字；safeNum 只接受 number 會全部變成 0
+    const id = Number(worldId);
+    const t = safeNum(time);
+    if (Number.isInteger(id) && id > 0 && t) result[id] = t;
+  }
+  return result;
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+// ===== Type Definitions =====
+// public/items.json 由 scripts/generate-items.mjs 產生，改格式時記得一起調 version
+export const LOCAL_ITEMS_VERSION = 1;
+
+const localItemRecordSchema = z.object({
+  id: z.number().int().positive(),
+  names: z.object({
+    "zh-TW": z.string().optional(),
+    en: z.string(),
+    ja: z.string(),
+  }),
+  icon: z.string(), // 遊戲內路徑，例如 ui/icon/020000/020801_hr1.tex
+  category: z.number().int().nonnegative(), // ItemUICategory row_id
+  itemLevel: z.number().int().nonnegative(),
+  stackSize: z.number().int().nonnegative(),
+  marketable: z.boolean(),
+});
+
+const localItemsFileSchema = z.object({
+  version: z.literal(LOCAL_ITEMS_VERSION),
+  generatedAt: z.string(),
+  items: z.array(localItemRecordSchema),
+});
+
+export type LocalItemRecord = z.infer<typeof localItemRecordSchema>;
+
+// `name` 是畫面上要顯示的名稱：有繁中就用繁中，否則退回英文
+export type LocalItemData = LocalItemRecord & { name: string };
+
+export type LocalItemsStatus = "loading" | "ready" | "missing" | "invalid";
+
+export type LocalItemsState = {
+  status: LocalItemsStatus;
+  items: Record<string, LocalItemData>;
+  generatedAt?: string;
+};
+
+// ===== Config / Constants =====
+const LOCAL_ITEMS_URL = "/items.json";
+
+export const EMPTY_LOCAL_ITEMS: LocalItemsState = {
+  status: "loading",
+  items: {},
+};
+
+// ===== Loader =====
+export function parseLocalItemsFile(
+  json: unknown
+): Omit<LocalItemsState, "status"> | null {
+  const parsed = localItemsFileSchema.safeParse(json);
+  if (!parsed.success) return null;
+
+  const items: Record<string, LocalItemData> = {};
+  for (const it of parsed.data.items) {
+    items[String(it.id)] = { ...it, name: it.names["zh-TW"] || it.names.en };
+  }
+  return { items, generatedAt: parsed.data.generatedAt };
+}
+
+/**
+ * 讀取本地物品資料。檔案不存在回傳 missing，格式或版本不對回傳 invalid，
+ * 兩種情況畫面都會退回 API 的英文名稱。
+ */
+export async function loadLocalItems(
+  signal?: AbortSignal
+): Promise<LocalItemsState> {
+  const res = await fetch(LOCAL_ITEMS_URL, { signal });
+  if (!res.ok) return { status: "missing", items: {} };
+
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch {
+    return { status: "invalid", items: {} };
+  }
+
+  const parsed = parseLocalItemsFile(json);
+  if (!parsed) {
+    console.error("Local items schema mismatch (expected version 1)");
+    return { status: "invalid", items: {} };
+  }
+  return { status: "ready", ...parsed };
+}
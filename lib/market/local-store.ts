@@ -0,0 +1,68 @@
+import type { z } from "zod";
+
+export type LocalStore<T> = {
+  get: () => T;
+  getServer: () => T;
+  set: (next: T) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function genLocalId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 存在 localStorage 的模組層級 store (與 hooks/use-toast.ts 同樣的 listeners 模式)。
+ * 讀取時用 zod 驗證，資料壞掉就回到預設值；其他分頁修改時透過 storage 事件同步。
+ */
+export function createLocalStore<T>(
+  key: string,
+  schema: z.ZodType<T>,
+  fallback: T
+): LocalStore<T> {
+  let memoryState: T | null = null;
+  const listeners = new Set<() => void>();
+
+  function read(): T {
+    try {
+      const raw = localStorage.getItem(key);
+      if (!raw) return fallback;
+      const parsed = schema.safeParse(JSON.parse(raw));
+      return parsed.success ? parsed.data : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  function get(): T {
+    if (typeof window === "undefined") return fallback;
+    memoryState ??= read();
+    return memoryState;
+  }
+
+  function set(next: T) {
+    memoryState = next;
+    try {
+      localStorage.setItem(key, JSON.stringify(next));
+    } catch (e) {
+      console.error(`Local store save error (${key}):`, e);
+    }
+    listeners.forEach((l) => l());
+  }
+
+  function subscribe(listener: () => void) {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== key) return;
+      memoryState = read();
+      listener();
+    };
+    listeners.add(listener);
+    window.addEventListener("storage", onStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  }
+
+  return { get, getServer: () => fallback, set, subscribe };
+}
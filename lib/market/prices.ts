@@ -0,0 +1,346 @@
+import {
+  batchKey,
+  cachedBatch,
+  createQueryCache,
+} from "@/lib/market/query-cache";
+import {
+  fetchCurrentItems,
+  type UniversalisCurrentItem,
+  type UniversalisListing,
+} from "@/lib/universalis/client";
+
+// ===== Type Definitions =====
+export type PriceInfo = {
+  minAll: number;
+  minAllWorld?: string;
+  minNQ: number;
+  minNQWorld?: string;
+  minHQ: number;
+  minHQWorld?: string;
+  listingsFetched: number;
+  lastUploadTime?: number;
+  stats?: SaleStats; // Universalis 的銷量統計；只從上架列表算出的 (summarizeListings) 沒有
+  depth: PriceLevel[]; // 依單價由低到高，算「買 N 個要多少」用
+};
+
+// 一筆上架的價格與數量；單一最低價會被 1 個 10 gil 的上架誤導，要看整個深度
+export type PriceLevel = {
+  pricePerUnit: number;
+  quantity: number;
+  total: number; // 整筆買下的價格 (未稅)
+  hq: boolean;
+};
+
+// Universalis 依成交紀錄算好的統計 (velocity 單位是「個 / 天」)
+export type SaleStats = {
+  velocityNQ: number;
+  velocityHQ: number;
+  averagePrice: number;
+  unitsForSale: number;
+  listingsCount: number;
+};
+
+// 單筆上架的精簡版；算完最低價後還需要逐筆比對時 (例如雇員追蹤) 才保留
+export type MarketListing = {
+  listingId: string;
+  pricePerUnit: number;
+  quantity: number;
+  hq: boolean;
+  retainerName: string;
+  worldName: string;
+  lastReviewTime: number; // 秒
+};
+
+export type PriceSnapshot = {
+  price: PriceInfo;
+  listings: MarketListing[];
+};
+
+// 各伺服器的最低價 (DC 模式下用來比較跨服價差)
+export type WorldMinPrice = {
+  worldName: string;
+  minNQ: number;
+  minHQ: number;
+};
+
+// 列表卡片用的最低價：只需要每筆上架的單價、品質與伺服器
+const PRICE_LISTINGS_PER_ITEM = 20;
+const PRICE_FIELDS = [
+  "items.itemID",
+  "items.lastUploadTime",
+  "items.listings.pricePerUnit",
+  "items.listings.quantity",
+  "items.listings.total",
+  "items.listings.hq",
+  "items.listings.worldName",
+  "items.nqSaleVelocity",
+  "items.hqSaleVelocity",
+  "items.averagePrice",
+  "items.unitsForSale",
+  "items.listingsCount",
+];
+
+const MINUTE = 60 * 1000;
+
+// 列表頁一頁的價格切成幾批同時查，先回來的卡片先有價格
+const PRICE_STREAM_CHUNK = 25;
+
+// 價格變得快：5 分鐘內直接用，一天內的先顯示再背景更新，更舊的就不顯示
+export const priceCache = createQueryCache<PriceInfo>("prices", {
+  ttlMs: 5 * MINUTE,
+  maxAgeMs: 24 * 60 * MINUTE,
+});
+
+// 要保留逐筆上架時多抓的欄位
+const LISTING_DETAIL_FIELDS = [
+  "items.worldName",
+  "items.listings.listingID",
+  "items.listings.retainerName",
+  "items.listings.lastReviewTime",
+];
+
+/** 查 current data (client 會自動分批)，每個有 ID 的物品回呼一次 */
+async function forEachPriceEntry(
+  worldOrDc: string,
+  itemIds: number[],
+  options: Parameters<typeof fetchCurrentItems>[2],
+  visit: (itemId: number, entry: UniversalisCurrentItem) => void
+) {
+  const entries = await fetchCurrentItems(worldOrDc, itemIds, options);
+  for (const it of entries) {
+    if (it.itemID) visit(it.itemID, it);
+  }
+}
+
+function priceFromEntry(it: UniversalisCurrentItem): PriceInfo {
+  return {
+    ...summarizeListings(it.listings, it.lastUploadTime || undefined),
+    stats: saleStatsFromEntry(it),
+  };
+}
+
+/**
+ * 取得一批物品的最低價，超過 100 個會自動分批。
+ * 整個結果集都要查的時候 (排序 / 篩選) 可以用 `onProgress` 顯示進度。
+ */
+export async function fetchPriceMap(
+  worldOrDc: string,
+  itemIds: number[],
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<number, PriceInfo>> {
+  const result = new Map<number, PriceInfo>();
+  await forEachPriceEntry(
+    worldOrDc,
+    itemIds,
+    {
+      listings: PRICE_LISTINGS_PER_ITEM,
+      fields: PRICE_FIELDS,
+      signal,
+      onProgress,
+    },
+    (itemId, it) => result.set(itemId, priceFromEntry(it))
+  );
+  return result;
+}
+
+/**
+ * 與 fetchPriceMap 相同，但以 (伺服器, 物品) 為 key 快取：
+ * 先用快取回呼一次 (沒有快取時是空的 Map)，只查缺的與過期的，每批查完再回呼一次。
+ */
+export function fetchPriceMapCached(
+  worldOrDc: string,
+  itemIds: number[],
+  onData: (prices: Map<number, PriceInfo>) => void,
+  signal?: AbortSignal
+): Promise<Map<number, PriceInfo>> {
+  return cachedBatch(
+    priceCache,
+    worldOrDc,
+    itemIds,
+    (ids) => fetchPriceMap(worldOrDc, ids, signal),
+    (data) => {
+      if (!signal?.aborted) onData(data);
+    },
+    PRICE_STREAM_CHUNK
+  );
+}
+
+/**
+ * 整個結果集 (排序 / 篩選) 用：與 fetchPriceMap 相同但走價格快取，
+ * 新鮮的直接用，缺的與過期的依序分批查。進度把快取命中的也算進去。
+ */
+export function scanPriceMapCached(
+  worldOrDc: string,
+  itemIds: number[],
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<number, PriceInfo>> {
+  return cachedBatch(
+    priceCache,
+    worldOrDc,
+    itemIds,
+    (ids) =>
+      fetchPriceMap(worldOrDc, ids, signal, (done, total) =>
+        onProgress?.(itemIds.length - total + done, itemIds.length)
+      ),
+    () => {}
+  );
+}
+
+/** 不管快取直接重新查，結果寫回快取 (手動重新整理用) */
+export async function refreshPriceMap(
+  worldOrDc: string,
+  itemIds: number[],
+  signal?: AbortSignal
+): Promise<Map<number, PriceInfo>> {
+  const result = await fetchPriceMap(worldOrDc, itemIds, signal);
+  priceCache.setMany(
+    Array.from(result, ([id, price]) => [batchKey(worldOrDc, id), price])
+  );
+  return result;
+}
+
+/**
+ * 與 fetchPriceMap 相同的最低價，但連同每筆上架 (雇員、數量) 一起回傳。
+ * Universalis 的 listings 依單價由低到高排，`listingsPerItem` 決定看多深。
+ */
+export async function fetchPriceSnapshots(
+  worldOrDc: string,
+  itemIds: number[],
+  listingsPerItem: number,
+  signal?: AbortSignal
+): Promise<Map<number, PriceSnapshot>> {
+  const result = new Map<number, PriceSnapshot>();
+  await forEachPriceEntry(
+    worldOrDc,
+    itemIds,
+    {
+      listings: listingsPerItem,
+      fields: [...PRICE_FIELDS, ...LISTING_DETAIL_FIELDS],
+      signal,
+    },
+    (itemId, it) =>
+      result.set(itemId, {
+        price: priceFromEntry(it),
+        listings: it.listings.map((l) => parseMarketListing(l, it.worldName)),
+      })
+  );
+  return result;
+}
+
+// ===== Reducers =====
+/** 查單一伺服器時 listings 不帶 worldName，用 `fallbackWorld` 補上 */
+export function parseMarketListing(
+  l: UniversalisListing,
+  fallbackWorld = ""
+): MarketListing {
+  return {
+    listingId: l.listingID,
+    pricePerUnit: l.pricePerUnit,
+    quantity: l.quantity || 1,
+    hq: l.hq,
+    retainerName: l.retainerName,
+    worldName: l.worldName || fallbackWorld,
+    lastReviewTime: l.lastReviewTime,
+  };
+}
+
+export function saleStatsFromEntry(it: UniversalisCurrentItem): SaleStats {
+  return {
+    velocityNQ: it.nqSaleVelocity,
+    velocityHQ: it.hqSaleVelocity,
+    averagePrice: Math.round(it.averagePrice),
+    unitsForSale: it.unitsForSale,
+    listingsCount: it.listingsCount,
+  };
+}
+
+/**
+ * 上架總筆數以 Universalis 的 `listingsCount` 為準；
+ * `listingsFetched` 只是抓回來的前 PRICE_LISTINGS_PER_ITEM 筆。
+ */
+export function listingsCountOf(price: PriceInfo) {
+  return price.stats?.listingsCount ?? price.listingsFetched;
+}
+
+export function summarizeListings(
+  listings: UniversalisListing[],
+  lastUploadTime?: number
+): PriceInfo {
+  let minAll = Infinity,
+    minAllW = "";
+  let minNQ = Infinity,
+    minNQW = "";
+  let minHQ = Infinity,
+    minHQW = "";
+  const depth: PriceLevel[] = [];
+
+  for (const l of listings) {
+    const ppu = l.pricePerUnit;
+    if (!ppu) continue;
+    const wName = l.worldName;
+    const quantity = l.quantity || 1;
+    depth.push({
+      pricePerUnit: ppu,
+      quantity,
+      total: l.total || ppu * quantity,
+      hq: l.hq,
+    });
+
+    if (ppu < minAll) {
+      minAll = ppu;
+      minAllW = wName;
+    }
+
+    if (l.hq) {
+      if (ppu < minHQ) {
+        minHQ = ppu;
+        minHQW = wName;
+      }
+    } else {
+      if (ppu < minNQ) {
+        minNQ = ppu;
+        minNQW = wName;
+      }
+    }
+  }
+
+  return {
+    minAll: minAll === Infinity ? 0 : minAll,
+    minAllWorld: minAllW,
+    minNQ: minNQ === Infinity ? 0 : minNQ,
+    minNQWorld: minNQW,
+    minHQ: minHQ === Infinity ? 0 : minHQ,
+    minHQWorld: minHQW,
+    listingsFetched: listings.length,
+    lastUploadTime,
+    depth: depth.sort((a, b) => a.pricePerUnit - b.pricePerUnit),
+  };
+}
+
+/** 與 summarizeListings 同樣的最低價計算，但按伺服器分開 */
+export function minPricesByWorld(
+  listings: UniversalisListing[]
+): WorldMinPrice[] {
+  const byWorld = new Map<string, WorldMinPrice>();
+
+  for (const l of listings) {
+    const ppu = l.pricePerUnit;
+    const wName = l.worldName;
+    if (!ppu || !wName) continue;
+
+    let w = byWorld.get(wName);
+    if (!w) {
+      w = { worldName: wName, minNQ: 0, minHQ: 0 };
+      byWorld.set(wName, w);
+    }
+    if (l.hq) {
+      if (!w.minHQ || ppu < w.minHQ) w.minHQ = ppu;
+    } else {
+      if (!w.minNQ || ppu < w.minNQ) w.minNQ = ppu;
+    }
+  }
+
+  return Array.from(byWorld.values());
+}
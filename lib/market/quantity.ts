@@ -0,0 +1,45 @@
+import type { PriceLevel } from "@/lib/market/prices";
+
+// ===== Type Definitions =====
+export type QuantityCost = {
+  requested: number;
+  units: number; // 抓到的上架裡實際湊得到的數量
+  cost: number;
+  average: number; // 加權平均單價
+  complete: boolean; // 是否湊滿 requested
+};
+
+// ===== Config / Constants =====
+export const QUANTITY_PRESETS = [1, 10, 20, 50, 99, 999];
+
+// ===== Calculator =====
+/**
+ * 從最便宜的上架往上累加，算出最便宜的 N 個要花多少。
+ * 這裡允許只買一筆上架的一部分，是估價用的下限；
+ * 實際只能整筆買的最佳組合見 lib/market/shopping.ts。
+ */
+export function costForQuantity(
+  depth: PriceLevel[],
+  requested: number,
+  hqOnly = false
+): QuantityCost | null {
+  let units = 0;
+  let cost = 0;
+
+  for (const level of depth) {
+    if (hqOnly && !level.hq) continue;
+    if (units >= requested) break;
+    const take = Math.min(level.quantity, requested - units);
+    cost += take === level.quantity ? level.total : take * level.pricePerUnit;
+    units += take;
+  }
+  if (!units) return null;
+
+  return {
+    requested,
+    units,
+    cost,
+    average: Math.round(cost / units),
+    complete: units >= requested,
+  };
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  batchKey,
+  cachedBatch,
+  createQueryCache,
+} from "@/lib/market/query-cache";
+
+// jsdom 沒有 IndexedDB，這裡測的是記憶體那一層與 cachedBatch 的流程
+
+// ===== Test Helpers =====
+const MINUTE = 60 * 1000;
+
+let cacheSeq = 0;
+function newCache() {
+  cacheSeq += 1;
+  return createQueryCache<string>(`test-${cacheSeq}`, {
+    ttlMs: 5 * MINUTE,
+    maxAgeMs: 60 * MINUTE,
+  });
+}
+
+function fetchFrom(source: Record<number, string>) {
+  return vi.fn(
+    async (ids: number[]) =>
+      new Map(ids.filter((id) => id in source).map((id) => [id, source[id]]))
+  );
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ===== Cache =====
+describe("createQueryCache", () => {
+  it("returns stored entries and tracks freshness", async () => {
+    const cache = newCache();
+    cache.setMany([["a", "A"]]);
+
+    const entry = (await cache.getMany(["a", "b"])).get("a");
+    expect(entry?.value).toBe("A");
+    expect(cache.isFresh(entry!)).toBe(true);
+
+    vi.advanceTimersByTime(6 * MINUTE);
+    expect(cache.isFresh(entry!)).toBe(false);
+  });
+
+  it("drops entries older than maxAgeMs", async () => {
+    const cache = newCache();
+    cache.setMany([["a", "A"]]);
+    vi.advanceTimersByTime(61 * MINUTE);
+    expect((await cache.getMany(["a"])).size).toBe(0);
+  });
+});
+
+// ===== Stale-While-Revalidate =====
+describe("cachedBatch", () => {
+  it("answers from the cache without fetching when everything is fresh", async () => {
+    const cache = newCache();
+    cache.setMany([[batchKey("w", 1), "one"]]);
+    const fetchBatch = fetchFrom({});
+    const onData = vi.fn();
+
+    const data = await cachedBatch(cache, "w", [1], fetchBatch, onData);
+    expect(data).toEqual(new Map([[1, "one"]]));
+    expect(fetchBatch).not.toHaveBeenCalled();
+    expect(onData).toHaveBeenCalledOnce();
+    expect(onData).toHaveBeenCalledWith(new Map([[1, "one"]]), true);
+  });
+
+  it("shows stale entries first and only refetches what is stale or missing", async () => {
+    const cache = newCache();
+    cache.setMany([[batchKey("w", 1), "old"]]);
+    vi.advanceTimersByTime(6 * MINUTE);
+    cache.setMany([[batchKey("w", 2), "two"]]);
+    const fetchBatch = fetchFrom({ 1: "new", 3: "three" });
+    const onData = vi.fn();
+
+    const data = await cachedBatch(cache, "w", [1, 2, 3], fetchBatch, onData);
+    expect(fetchBatch).toHaveBeenCalledWith([1, 3]);
+    expect(onData.mock.calls).toEqual([
+      [
+        new Map([
+          [1, "old"],
+          [2, "two"],
+        ]),
+        false,
+      ],
+      [
+        new Map([
+          [1, "new"],
+          [2, "two"],
+          [3, "three"],
+        ]),
+        true,
+      ],
+    ]);
+    expect(data.get(1)).toBe("new");
+
+    // 查到的結果已寫回快取
+    const again = fetchFrom({});
+    await cachedBatch(cache, "w", [1, 3], again, vi.fn());
+    expect(again).not.toHaveBeenCalled();
+  });
+
+  it("keeps the chunks that succeeded when another chunk fails", async () => {
+    const cache = newCache();
+    const fetchBatch = vi.fn(async (ids: number[]) => {
+      if (ids.includes(3)) throw new Error("boom");
+      return new Map(ids.map((id) => [id, `#${id}`]));
+    });
+    const onData = vi.fn();
+
+    const data = await cachedBatch(
+      cache,
+      "w",
+      [1, 2, 3],
+      fetchBatch,
+      onData,
+      2
+    );
+    expect(data).toEqual(
+      new Map([
+        [1, "#1"],
+        [2, "#2"],
+      ])
+    );
+    expect(onData).toHaveBeenLastCalledWith(data, true);
+  });
+
+  it("rejects when every chunk fails", async () => {
+    const cache = newCache();
+    const fetchBatch = vi.fn(async () => {
+      throw new Error("offline");
+    });
+    const onData = vi.fn();
+
+    await expect(
+      cachedBatch(cache, "w", [1, 2, 3], fetchBatch, onData, 2)
+    ).rejects.toThrow("offline");
+    expect(onData).toHaveBeenLastCalledWith(new Map(), true);
+  });
+});
@@ -0,0 +1,265 @@
+// ===== Type Definitions =====
+export type CacheEntry<T> = {
+  value: T;
+  storedAt: number; // 毫秒
+};
+
+// 存進 IndexedDB 的格式；`expiresAt` 讓所有 cache 共用同一個索引清掉過期資料
+type StoredEntry<T> = CacheEntry<T> & { expiresAt: number };
+
+// TTL 由各個 cache 建立時決定，之後不會改
+export type QueryCacheOptions = {
+  ttlMs: number; // 這段時間內視為新鮮，不用重新驗證
+  maxAgeMs: number; // 超過就當作沒有快取 (太舊的資料連先顯示都不值得)
+};
+
+export type QueryCache<T> = {
+  getMany: (keys: string[]) => Promise<Map<string, CacheEntry<T>>>;
+  setMany: (entries: [string, T][]) => void;
+  isFresh: (entry: CacheEntry<T>) => boolean;
+};
+
+// ===== Config / Constants =====
+const DB_NAME = "ffxiv-market-cache";
+const DB_VERSION = 2;
+const STORE_NAME = "entries";
+const EXPIRES_INDEX = "expiresAt";
+
+// IndexedDB 裡所有 cache 加起來最多留多少筆，超過就先丟最快過期的
+const MAX_DB_ENTRIES = 50000;
+
+// 記憶體裡每個 cache 最多留多少筆，超過就丟掉最早放進來的
+const MAX_MEMORY_ENTRIES = 5000;
+
+// 寫入後最多隔多久清理一次；每次寫入都掃一遍索引太浪費
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+// ===== IndexedDB =====
+// 整個 App 共用一個連線；不支援 (SSR、部分無痕模式) 時只用記憶體
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let lastPruneAt = 0;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  dbPromise ??= new Promise((resolve) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      // 只是快取，舊版本的資料沒有 expiresAt，直接整個重建
+      const db = req.result;
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      db.createObjectStore(STORE_NAME).createIndex(EXPIRES_INDEX, "expiresAt");
+    };
+    req.onsuccess = () => {
+      pruneThrottled(req.result);
+      resolve(req.result);
+    };
+    req.onerror = () => {
+      console.error("Query cache DB error:", req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+/** 刪掉過期的 entry，總數超過 MAX_DB_ENTRIES 時再從最快過期的開始刪 */
+function prune(db: IDBDatabase) {
+  try {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    const index = store.index(EXPIRES_INDEX);
+    const expired = IDBKeyRange.upperBound(Date.now());
+    index.openKeyCursor(expired).onsuccess = function () {
+      const cursor = this.result;
+      if (!cursor) return trimToLimit(store, index);
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    tx.onerror = () => console.error("Query cache prune error:", tx.error);
+  } catch (e) {
+    console.error("Query cache prune error:", e);
+  }
+}
+
+/** 開 DB 時清一次，之後的寫入最多每 PRUNE_INTERVAL_MS 清一次 */
+function pruneThrottled(db: IDBDatabase) {
+  const now = Date.now();
+  if (now - lastPruneAt < PRUNE_INTERVAL_MS) return;
+  lastPruneAt = now;
+  prune(db);
+}
+
+function trimToLimit(store: IDBObjectStore, index: IDBIndex) {
+  store.count().onsuccess = function () {
+    let excess = this.result - MAX_DB_ENTRIES;
+    if (excess <= 0) return;
+    index.openKeyCursor().onsuccess = function () {
+      const cursor = this.result;
+      if (!cursor || excess-- <= 0) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  };
+}
+
+function promisify<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// ===== Factory =====
+/**
+ * 記憶體 + IndexedDB 兩層的查詢快取。`name` 當作 key 的前綴，
+ * 不同的 cache 共用同一個 object store。
+ * 讀取時回傳原始的 entry，要不要重新驗證由呼叫端看 `isFresh` 決定。
+ */
+export function createQueryCache<T>(
+  name: string,
+  options: QueryCacheOptions
+): QueryCache<T> {
+  const memory = new Map<string, CacheEntry<T>>();
+
+  function remember(key: string, entry: CacheEntry<T>) {
+    memory.delete(key);
+    memory.set(key, entry);
+    if (memory.size > MAX_MEMORY_ENTRIES) {
+      const oldest = memory.keys().next().value;
+      if (oldest !== undefined) memory.delete(oldest);
+    }
+  }
+
+  function isUsable(entry: CacheEntry<T> | undefined) {
+    return !!entry && Date.now() - entry.storedAt <= options.maxAgeMs;
+  }
+
+  async function getMany(keys: string[]) {
+    const result = new Map<string, CacheEntry<T>>();
+    const missing: string[] = [];
+    for (const key of keys) {
+      const entry = memory.get(key);
+      if (isUsable(entry)) result.set(key, entry!);
+      else missing.push(key);
+    }
+
+    const db = missing.length ? await openDb() : null;
+    if (!db) return result;
+
+    try {
+      const store = db
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME);
+      const found = await Promise.all(
+        missing.map(
+          (key) =>
+            promisify(store.get(`${name}:${key}`)) as Promise<
+              CacheEntry<T> | undefined
+            >
+        )
+      );
+      missing.forEach((key, i) => {
+        const entry = found[i];
+        if (!isUsable(entry)) return;
+        remember(key, entry!);
+        result.set(key, entry!);
+      });
+    } catch (e) {
+      console.error(`Query cache read error (${name}):`, e);
+    }
+    return result;
+  }
+
+  function setMany(entries: [string, T][]) {
+    if (!entries.length) return;
+    const storedAt = Date.now();
+    const expiresAt = storedAt + options.maxAgeMs;
+    for (const [key, value] of entries) remember(key, { value, storedAt });
+
+    // 寫入 IndexedDB 不用等，失敗也只是下次重新整理後沒有快取
+    openDb().then((db) => {
+      if (!db) return;
+      try {
+        const tx = db.transaction(STORE_NAME, "readwrite");
+        const store = tx.objectStore(STORE_NAME);
+        for (const [key, value] of entries) {
+          const stored: StoredEntry<T> = { value, storedAt, expiresAt };
+          store.put(stored, `${name}:${key}`);
+        }
+        tx.oncomplete = () => pruneThrottled(db);
+        tx.onerror = () =>
+          console.error(`Query cache write error (${name}):`, tx.error);
+      } catch (e) {
+        console.error(`Query cache write error (${name}):`, e);
+      }
+    });
+  }
+
+  return {
+    getMany,
+    setMany,
+    isFresh: (entry) => Date.now() - entry.storedAt <= options.ttlMs,
+  };
+}
+
+// ===== Stale-While-Revalidate =====
+export function batchKey(scope: string, id: number) {
+  return `${scope}:${id}`;
+}
+
+/**
+ * 一批 ID 的 stale-while-revalidate：先把快取裡有的 (就算過期、就算是空的)
+ * 回呼一次，再只查缺的與過期的，查完合併後以 `done = true` 再回呼一次。
+ * 全部都新鮮時只回呼一次而且不發請求。`scope` 區分同一個 ID 的不同查詢 (例如伺服器)。
+ * 給 `chunkSize` 時缺的 ID 會切成幾批同時查，每批回來就回呼一次，畫面可以逐步更新。
+ * 只有部分批次失敗時保留其他批的結果，全部失敗才 reject。
+ */
+export async function cachedBatch<T>(
+  cache: QueryCache<T>,
+  scope: string,
+  ids: number[],
+  fetchBatch: (ids: number[]) => Promise<Map<number, T>>,
+  onData: (data: Map<number, T>, done: boolean) => void,
+  chunkSize = Infinity
+): Promise<Map<number, T>> {
+  const keyOf = (id: number) => batchKey(scope, id);
+  const cached = await cache.getMany(ids.map(keyOf));
+
+  const data = new Map<number, T>();
+  const stale: number[] = [];
+  for (const id of ids) {
+    const entry = cached.get(keyOf(id));
+    if (entry) data.set(id, entry.value);
+    if (!entry || !cache.isFresh(entry)) stale.push(id);
+  }
+  onData(new Map(data), !stale.length);
+  if (!stale.length) return data;
+
+  const chunks: number[][] = [];
+  for (let i = 0; i < stale.length; i += chunkSize) {
+    chunks.push(stale.slice(i, i + chunkSize));
+  }
+
+  // 每批各自結算：一批失敗不影響其他批已經查到的結果
+  let pending = chunks.length;
+  const results = await Promise.allSettled(
+    chunks.map(async (chunk) => {
+      try {
+        const fresh = await fetchBatch(chunk);
+        cache.setMany(Array.from(fresh, ([id, value]) => [keyOf(id), value]));
+        for (const [id, value] of fresh) data.set(id, value);
+      } finally {
+        pending -= 1;
+        onData(new Map(data), pending === 0);
+      }
+    })
+  );
+
+  // 全部失敗才當成錯誤；部分失敗時回傳查到的，缺的 ID 留給呼叫端重試
+  const failed = results.flatMap((r) =>
+    r.status === "rejected" ? [r.reason] : []
+  );
+  if (failed.length === chunks.length) throw failed[0];
+  return data;
+}
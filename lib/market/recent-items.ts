@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { createLocalStore } from "@/lib/market/local-store";
+
+// ===== Type Definitions =====
+const recentItemSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string(),
+  iconUrl: z.string().optional(),
+});
+
+export type RecentItem = z.infer<typeof recentItemSchema>;
+
+// ===== Config / Constants =====
+const STORAGE_KEY = "ffxiv-market:recent-items";
+const MAX_RECENT = 10;
+const EMPTY: RecentItem[] = [];
+
+// ===== Store =====
+export const recentItemStore = createLocalStore(
+  STORAGE_KEY,
+  z.array(recentItemSchema),
+  EMPTY
+);
+
+// ===== Actions =====
+/** 最近看過的物品，新的排最前面，重複的會移到最前面 */
+export function rememberRecentItem(item: RecentItem) {
+  recentItemStore.set(
+    [item, ...recentItemStore.get().filter((r) => r.id !== item.id)].slice(
+      0,
+      MAX_RECENT
+    )
+  );
+}
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { safeNum } from "@/lib/market/utils";
+import { iconUrl, searchSheets } from "@/lib/xivapi/client";
+import { clause } from "@/lib/xivapi/query";
+import { iconSchema, linkSchema } from "@/lib/xivapi/schemas";
+
+// ===== Type Definitions =====
+export type Recipe = {
+  id: number;
+  itemId: number;
+  amountResult: number;
+  craftType?: string;
+  ingredients: {
+    itemId: number;
+    name: string;
+    iconUrl: string;
+    amount: number;
+  }[];
+};
+
+export type RecipeNode = {
+  itemId: number;
+  name: string;
+  iconUrl: string;
+  amount: number; // 上一層每做一次需要的數量
+  recipe?: Recipe;
+  children: RecipeNode[];
+};
+
+export type CraftChoice = "buy" | "craft";
+
+export type NodeCost = {
+  unitBuy: number; // 市場最低價，0 表示買不到
+  unitCraft: number; // 自己做的單位成本，0 表示不能做或材料買不到
+  choice: CraftChoice;
+  unitCost: number;
+};
+
+// ===== Config / Constants =====
+const MAX_DEPTH = 4;
+
+// 同一個物品的配方查一次就好，展開樹時常常重複出現 (例如各種錠)
+const recipeCache = new Map<number, Promise<Recipe | null>>();
+
+const recipeFields = z.object({
+  AmountResult: z.number().nullish(),
+  CraftType: linkSchema(z.object({ Name: z.string().nullish() })).nullish(),
+  Ingredient: z
+    .array(
+      linkSchema(
+        z.object({ Name: z.string().nullish(), Icon: iconSchema.nullish() })
+      )
+    )
+    .nullish(),
+  AmountIngredient: z.array(z.number()).nullish(),
+});
+
+// ===== Fetcher =====
+async function loadRecipe(itemId: number): Promise<Recipe | null> {
+  const { results } = await searchSheets({
+    sheets: ["Recipe"],
+    query: [clause("ItemResult", "=", itemId)],
+    fields: [
+      "AmountResult",
+      "CraftType.Name",
+      "Ingredient[].Name",
+      "Ingredient[].Icon",
+      "AmountIngredient",
+    ],
+    schema: recipeFields,
+    limit: 1,
+  });
+
+  const row = results[0];
+  if (!row) return null;
+  const f = row.fields;
+
+  const links = f.Ingredient ?? [];
+  const amounts = f.AmountIngredient ?? [];
+
+  // 空的材料欄位 row_id 是 0 或數量是 0
+  const ingredients = links
+    .map((link, i) => ({
+      itemId: link.row_id,
+      name: link.fields?.Name || "",
+      iconUrl: iconUrl(link.fields?.Icon),
+      amount: safeNum(amounts[i]),
+    }))
+    .filter((ing) => ing.itemId > 0 && ing.amount > 0);
+
+  return {
+    id: row.row_id,
+    itemId,
+    amountResult: safeNum(f.AmountResult, 1) || 1,
+    craftType: f.CraftType?.fields?.Name ?? undefined,
+    ingredients,
+  };
+}
+
+export function fetchRecipe(itemId: number): Promise<Recipe | null> {
+  let pending = recipeCache.get(itemId);
+  if (!pending) {
+    pending = loadRecipe(itemId).catch((e) => {
+      recipeCache.delete(itemId);
+      throw e;
+    });
+    recipeCache.set(itemId, pending);
+  }
+  return pending;
+}
+
+// ===== Tree =====
+/**
+ * 遞迴展開配方。`path` 用來擋掉循環配方 (例如可以互相兌換的素材)。
+ */
+export async function expandRecipeTree(
+  itemId: number,
+  name: string,
+  iconUrl: string,
+  amount = 1,
+  depth = 0,
+  path: number[] = []
+): Promise<RecipeNode> {
+  const node: RecipeNode = { itemId, name, iconUrl, amount, children: [] };
+  if (depth >= MAX_DEPTH || path.includes(itemId)) return node;
+
+  const recipe = await fetchRecipe(itemId);
+  if (!recipe) return node;
+
+  node.recipe = recipe;
+  node.children = await Promise.all(
+    recipe.ingredients.map((ing) =>
+      expandRecipeTree(
+        ing.itemId,
+        ing.name,
+        ing.iconUrl,
+        ing.amount,
+        depth + 1,
+        [...path, itemId]
+      )
+    )
+  );
+  return node;
+}
+
+export function collectItemIds(node: RecipeNode, out = new Set<number>()) {
+  out.add(node.itemId);
+  node.children.forEach((c) => collectItemIds(c, out));
+  return out;
+}
+
+// ===== Cost =====
+/**
+ * 由下往上算每個節點的單位成本。
+ * 沒有手動指定時，自己做比較便宜 (或市場上買不到) 就選製作。
+ */
+export function computeCosts(
+  node: RecipeNode,
+  buyPrices: Map<number, number>,
+  choices: Map<number, CraftChoice>,
+  out = new Map<number, NodeCost>()
+): Map<number, NodeCost> {
+  node.children.forEach((c) => computeCosts(c, buyPrices, choices, out));
+
+  const unitBuy = buyPrices.get(node.itemId) ?? 0;
+  let unitCraft = 0;
+  if (node.recipe && node.children.length) {
+    let total = 0;
+    let complete = true;
+    for (const c of node.children) {
+      const cost = out.get(c.itemId)?.unitCost ?? 0;
+      if (!cost) complete = false;
+      total += cost * c.amount;
+    }
+    unitCraft = complete ? total / node.recipe.amountResult : 0;
+  }
+
+  const auto: CraftChoice =
+    unitCraft && (!unitBuy || unitCraft < unitBuy) ? "craft" : "buy";
+  let choice = choices.get(node.itemId) ?? auto;
+  if (choice === "craft" && !unitCraft) choice = "buy";
+
+  out.set(node.itemId, {
+    unitBuy,
+    unitCraft,
+    choice,
+    unitCost: choice === "craft" ? unitCraft : unitBuy,
+  });
+  return out;
+}
@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { createLocalStore } from "@/lib/market/local-store";
+import type { MarketListing, PriceSnapshot } from "@/lib/market/prices";
+import { DEFAULT_DC } from "@/lib/market/worlds";
+
+// ===== Type Definitions =====
+const trackedItemSchema = z.object({
+  itemId: z.number().int().positive(),
+  itemName: z.string(),
+});
+
+const retainerConfigSchema = z.object({
+  worldOrDc: z.string().min(1),
+  retainerNames: z.array(z.string().min(1)),
+  items: z.array(trackedItemSchema),
+});
+
+export type TrackedItem = z.infer<typeof trackedItemSchema>;
+export type RetainerConfig = z.infer<typeof retainerConfigSchema>;
+
+// 我們的一筆上架與同伺服器、同品質的競爭者比較結果
+export type RetainerListingStatus = {
+  itemId: number;
+  listing: MarketListing;
+  undercut: boolean;
+  cheaperCount: number; // 同伺服器、同品質比我們便宜的別人上架數
+  competitorMin: number | null; // 同伺服器、同品質別人的最低價
+  dcMin: number | null; // 整個查詢範圍內同品質別人的最低價
+  suggestedPrice: number | null; // 被壓價時建議改成的單價
+};
+
+export type RetainerItemReport = {
+  itemId: number;
+  statuses: RetainerListingStatus[];
+  // 抓到的上架裡找不到我們的雇員：可能賣完了，也可能排在更後面
+  missing: boolean;
+};
+
+// ===== Config / Constants =====
+const STORAGE_KEY = "ffxiv-market:retainers";
+
+// 要看得夠深才找得到價格偏高的自家上架
+export const RETAINER_LISTINGS_PER_ITEM = 100;
+
+// 壓價慣例：比最低的別人再便宜 1 gil
+const UNDERCUT_STEP = 1;
+
+const EMPTY: RetainerConfig = {
+  worldOrDc: DEFAULT_DC,
+  retainerNames: [],
+  items: [],
+};
+
+// ===== Store =====
+export const retainerStore = createLocalStore(
+  STORAGE_KEY,
+  retainerConfigSchema,
+  EMPTY
+);
+
+// ===== Actions =====
+function update(patch: Partial<RetainerConfig>) {
+  retainerStore.set({ ...retainerStore.get(), ...patch });
+}
+
+function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function isMyRetainer(name: string, names: string[]) {
+  return Boolean(name) && names.some((n) => sameName(n, name));
+}
+
+export function addRetainer(name: string) {
+  const { retainerNames } = retainerStore.get();
+  if (!name.trim() || isMyRetainer(name, retainerNames)) return;
+  update({ retainerNames: [...retainerNames, name.trim()] });
+}
+
+export function removeRetainer(name: string) {
+  update({
+    retainerNames: retainerStore
+      .get()
+      .retainerNames.filter((n) => !sameName(n, name)),
+  });
+}
+
+export function trackRetainerItem(item: TrackedItem) {
+  const { items } = retainerStore.get();
+  if (items.some((it) => it.itemId === item.itemId)) return;
+  update({ items: [...items, item] });
+}
+
+export function untrackRetainerItem(itemId: number) {
+  update({
+    items: retainerStore.get().items.filter((it) => it.itemId !== itemId),
+  });
+}
+
+export function setRetainerScope(worldOrDc: string) {
+  update({ worldOrDc });
+}
+
+// ===== Analysis =====
+/**
+ * 找出快照裡屬於我們雇員的上架，逐筆和同伺服器、同品質的別人比較。
+ * 市場板是各伺服器分開的，所以「被壓價」只看同一個伺服器。
+ */
+export function analyzeRetainerListings(
+  itemId: number,
+  snapshot: PriceSnapshot | undefined,
+  retainerNames: string[]
+): RetainerItemReport {
+  const listings = snapshot?.listings ?? [];
+  const ours = listings.filter((l) =>
+    isMyRetainer(l.retainerName, retainerNames)
+  );
+  const others = listings.filter(
+    (l) => l.pricePerUnit > 0 && !isMyRetainer(l.retainerName, retainerNames)
+  );
+
+  const statuses = ours.map((listing): RetainerListingStatus => {
+    const sameQuality = others.filter((l) => l.hq === listing.hq);
+    const sameWorld = sameQuality.filter(
+      (l) => l.worldName === listing.worldName
+    );
+    const minOf = (ls: MarketListing[]) =>
+      ls.length ? Math.min(...ls.map((l) => l.pricePerUnit)) : null;
+
+    const competitorMin = minOf(sameWorld);
+    const undercut =
+      competitorMin !== null && competitorMin < listing.pricePerUnit;
+
+    return {
+      itemId,
+      listing,
+      undercut,
+      cheaperCount: sameWorld.filter(
+        (l) => l.pricePerUnit < listing.pricePerUnit
+      ).length,
+      competitorMin,
+      dcMin: minOf(sameQuality),
+      suggestedPrice:
+        undercut && competitorMin !== null
+          ? Math.max(1, competitorMin - UNDERCUT_STEP)
+          : null,
+    };
+  });
+
+  return { itemId, statuses, missing: statuses.length === 0 };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { LocalItemData } from "@/lib/market/local-items";
+import {
+  exactMatches,
+  getSearchIndex,
+  searchIndex,
+} from "@/lib/market/search-index";
+
+// ===== Test Helpers =====
+function item(id: number, zh: string, en: string, ja: string): LocalItemData {
+  return {
+    id,
+    names: { "zh-TW": zh, en, ja },
+    name: zh || en,
+    icon: "",
+    category: 0,
+    itemLevel: 1,
+    stackSize: 999,
+    marketable: true,
+  };
+}
+
+const ITEMS: Record<string, LocalItemData> = Object.fromEntries(
+  [
+    item(5111, "鐵礦", "Iron Ore", "鉄鉱"),
+    item(5057, "鐵錠", "Iron Ingot", "アイアンインゴット"),
+    item(5059, "黑鐵錠", "Darksteel Ingot", "ダークスチールインゴット"),
+    item(5339, "蜂蠟", "Beeswax", "蜜蝋"),
+    item(5346, "", "Flax", "亜麻"),
+  ].map((it) => [String(it.id), it])
+);
+
+async function search(query: string) {
+  return searchIndex(await getSearchIndex(ITEMS), query);
+}
+
+// ===== Index =====
+describe("getSearchIndex", () => {
+  it("builds the index once per items object", () => {
+    expect(getSearchIndex(ITEMS)).toBe(getSearchIndex(ITEMS));
+  });
+});
+
+// ===== Search =====
+describe("searchIndex", () => {
+  it("puts an item ID ahead of name matches", async () => {
+    expect((await search("5057"))[0]).toBe(5057);
+  });
+
+  it("ranks an exact name before prefix matches and keeps ID order on ties", async () => {
+    expect(await search("Iron Ore")).toEqual([5111]);
+    expect(await search("iron")).toEqual([5057, 5111]);
+  });
+
+  it("matches the start of any English word", async () => {
+    expect(await search("ingot")).toEqual([5057, 5059]);
+  });
+
+  it("ranks prefixes before substrings", async () => {
+    expect(await search("鐵")).toEqual([5057, 5111, 5059]);
+  });
+
+  it("matches full pinyin and pinyin initials", async () => {
+    expect(await search("tiekuang")).toEqual([5111]);
+    expect(await search("tk")).toEqual([5111]);
+    expect(await search("tie")).toEqual([5057, 5111]);
+  });
+
+  it("matches zhuyin and zhuyin initials", async () => {
+    expect(await search("ㄈㄥ ㄌㄚ")).toEqual([5339]);
+    expect(await search("ㄈㄌ")).toEqual([5339]);
+  });
+
+  it("tolerates a typo in longer English queries", async () => {
+    expect(await search("beeswaz")).toEqual([5339]);
+    // 太短的字不做模糊比對，免得什麼都對得上
+    expect(await search("flx")).toEqual([]);
+  });
+
+  it("matches Han characters in order with gaps", async () => {
+    expect(await search("黑錠")).toEqual([5059]);
+  });
+
+  it("returns nothing for a blank query", async () => {
+    expect(await search("   ")).toEqual([]);
+  });
+});
+
+describe("exactMatches", () => {
+  it("ignores case and full-width characters in any language", async () => {
+    const index = await getSearchIndex(ITEMS);
+    expect(exactMatches(index, "IRON ORE")).toEqual([5111]);
+    expect(exactMatches(index, "ｆｌａｘ")).toEqual([5346]);
+    expect(exactMatches(index, "蜜蝋")).toEqual([5339]);
+    expect(exactMatches(index, "iron")).toEqual([]);
+  });
+});
@@ -0,0 +1,206 @@
+import type { LocalItemData } from "@/lib/market/local-items";
+import { pinyinToZhuyin } from "@/lib/market/zhuyin";
+
+// ===== Type Definitions =====
+type IndexEntry = {
+  id: number;
+  names: string[]; // 正規化後的 zh-TW / en / ja 名稱
+  words: string[]; // 英文名稱拆成單字，給前綴與模糊比對用
+  pinyin: string; // 全拼，例如 "tiekuang"
+  pinyinInitials: string; // 首字母，例如 "tk"
+  zhuyin: string; // 例如 "ㄊㄧㄝㄎㄨㄤ"
+  zhuyinInitials: string; // 例如 "ㄊㄎ"
+};
+
+export type SearchIndex = {
+  entries: IndexEntry[];
+  byId: Map<number, IndexEntry>;
+};
+
+// ===== Config / Constants =====
+// 分數越高排越前面；同分時維持 ID 順序
+const SCORE = {
+  id: 1000,
+  exact: 500,
+  prefix: 300,
+  wordPrefix: 250,
+  phonetic: 200,
+  substring: 150,
+  fuzzy: 50,
+} as const;
+
+const HAN_RE = /\p{Script=Han}/u;
+
+// 同一份 items 只建一次索引
+const indexCache = new WeakMap<object, Promise<SearchIndex>>();
+
+// ===== Helpers =====
+export function normalizeQuery(text: string) {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function compact(text: string) {
+  return text.replace(/[\s'’\-·・]/g, "");
+}
+
+/** 有界的編輯距離 (相鄰字對調算一次)；超過 max 就提早放棄 */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        cur[j] = Math.min(cur[j], prev2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** 字依序出現即可，中間可以夾其他字 (例如「鐵錠」對上「鐵製錠」) */
+function isSubsequence(query: string, text: string) {
+  let i = 0;
+  for (const c of text) {
+    if (c === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return false;
+}
+
+function fuzzyLimit(query: string) {
+  if (query.length >= 8) return 2;
+  if (query.length >= 4) return 1;
+  return 0;
+}
+
+// ===== Index =====
+async function buildIndex(
+  items: Record<string, LocalItemData>
+): Promise<SearchIndex> {
+  // pinyin-pro 的字典不小，用到搜尋才載入
+  const { pinyin } = await import("pinyin-pro");
+
+  const entries: IndexEntry[] = [];
+  for (const item of Object.values(items)) {
+    const zh = item.names["zh-TW"] || "";
+    const names = [zh, item.names.en, item.names.ja]
+      .filter(Boolean)
+      .map(normalizeQuery);
+
+    let syllables: string[] = [];
+    if (zh && HAN_RE.test(zh)) {
+      syllables = pinyin(zh, { toneType: "none", type: "array", v: true })
+        .map((s) => s.toLowerCase())
+        .filter((s) => /^[a-z]+$/.test(s));
+    }
+    const zhuyin = syllables.map(pinyinToZhuyin);
+
+    entries.push({
+      id: item.id,
+      names,
+      words: normalizeQuery(item.names.en)
+        .split(/[\s\-]+/)
+        .filter(Boolean),
+      pinyin: syllables.join(""),
+      pinyinInitials: syllables.map((s) => s[0]).join(""),
+      zhuyin: zhuyin.join(""),
+      zhuyinInitials: zhuyin.map((s) => s[0]).join(""),
+    });
+  }
+
+  return { entries, byId: new Map(entries.map((e) => [e.id, e])) };
+}
+
+export function getSearchIndex(items: Record<string, LocalItemData>) {
+  let pending = indexCache.get(items);
+  if (!pending) {
+    pending = buildIndex(items);
+    indexCache.set(items, pending);
+  }
+  return pending;
+}
+
+// ===== Search =====
+function scoreEntry(entry: IndexEntry, q: string, qc: string) {
+  let best = 0;
+
+  for (const name of entry.names) {
+    if (name === q) return SCORE.exact;
+    if (name.startsWith(q)) best = Math.max(best, SCORE.prefix);
+    else if (name.includes(q)) best = Math.max(best, SCORE.substring);
+  }
+  if (best >= SCORE.prefix) return best;
+
+  if (entry.words.some((w) => w.startsWith(q))) {
+    best = Math.max(best, SCORE.wordPrefix);
+  }
+
+  // 拼音 / 注音：全拼或首字母的前綴都算
+  if (
+    entry.pinyin &&
+    (entry.pinyin.startsWith(qc) ||
+      entry.pinyinInitials.startsWith(qc) ||
+      entry.zhuyin.startsWith(qc) ||
+      entry.zhuyinInitials.startsWith(qc))
+  ) {
+    best = Math.max(best, SCORE.phonetic);
+  }
+  if (best) return best;
+
+  // 打錯字：英文比對同長度的前綴，中日文看字是否依序出現
+  const limit = fuzzyLimit(qc);
+  if (limit) {
+    for (const name of entry.names) {
+      const head = compact(name).slice(0, qc.length);
+      if (editDistance(qc, head, limit) <= limit) return SCORE.fuzzy;
+    }
+  }
+  if (qc.length >= 2 && HAN_RE.test(qc)) {
+    if (entry.names.some((name) => isSubsequence(qc, name))) {
+      return SCORE.fuzzy;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 在本地物品資料裡搜尋，回傳依相關度排序的物品 ID。
+ * 純數字視為物品 ID。
+ */
+export function searchIndex(index: SearchIndex, query: string): number[] {
+  const q = normalizeQuery(query);
+  if (!q) return [];
+  const qc = compact(q);
+
+  const scored: { id: number; score: number }[] = [];
+  if (/^\d+$/.test(qc) && index.byId.has(Number(qc))) {
+    scored.push({ id: Number(qc), score: SCORE.id });
+  }
+
+  for (const entry of index.entries) {
+    const score = scoreEntry(entry, q, qc);
+    if (score && entry.id !== scored[0]?.id) {
+      scored.push({ id: entry.id, score });
+    }
+  }
+
+  return scored.sort((a, b) => b.score - a.score).map((s) => s.id);
+}
+
+/** 任一語言的名稱與輸入完全相同 (忽略大小寫與全半形) 的物品 ID */
+export function exactMatches(index: SearchIndex, query: string): number[] {
+  const q = normalizeQuery(query);
+  if (!q) return [];
+  return index.entries
+    .filter((entry) => entry.names.includes(q))
+    .map((entry) => entry.id);
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { MarketListing } from "@/lib/market/prices";
+import {
+  cheapestCover,
+  parseShoppingList,
+  planItem,
+} from "@/lib/market/shopping";
+
+// ===== Test Helpers =====
+const NAMES: Record<string, number[]> = {
+  beeswax: [5339],
+  flax: [5346],
+  iron: [5111, 5112], // 部分符合多個物品
+};
+
+function resolveName(name: string) {
+  return NAMES[name.toLowerCase()] ?? [];
+}
+
+function listing(
+  pricePerUnit: number,
+  quantity: number,
+  extra: Partial<MarketListing> = {}
+): MarketListing {
+  return {
+    listingId: `${pricePerUnit}x${quantity}`,
+    pricePerUnit,
+    quantity,
+    hq: false,
+    retainerName: "",
+    worldName: "Bahamut",
+    lastReviewTime: 0,
+    ...extra,
+  };
+}
+
+function costOf(listings: MarketListing[]) {
+  return listings.reduce((sum, l) => sum + l.pricePerUnit * l.quantity, 0);
+}
+
+function supplyOf(listings: MarketListing[]) {
+  return listings.reduce((sum, l) => sum + l.quantity, 0);
+}
+
+// ===== Parser =====
+describe("parseShoppingList", () => {
+  it("treats a bare number as an ID without a quantity", () => {
+    const { lines, errors } = parseShoppingList("5057", resolveName);
+    expect(lines).toEqual([]);
+    expect(errors).toEqual(["第 1 行缺少數量：5057"]);
+  });
+
+  it("keeps names ending in x intact", () => {
+    const { lines, errors } = parseShoppingList(
+      "Beeswax 3\nFlax 10",
+      resolveName
+    );
+    expect(errors).toEqual([]);
+    expect(lines).toEqual([
+      { itemId: 5339, quantity: 3, hqOnly: false },
+      { itemId: 5346, quantity: 10, hqOnly: false },
+    ]);
+  });
+
+  it("accepts an explicit multiplier with surrounding whitespace", () => {
+    const { lines } = parseShoppingList(
+      "5057 x 99\n5058 × 2\n5059 * 3\nBeeswax x4 HQ",
+      resolveName
+    );
+    expect(lines).toEqual([
+      { itemId: 5057, quantity: 99, hqOnly: false },
+      { itemId: 5058, quantity: 2, hqOnly: false },
+      { itemId: 5059, quantity: 3, hqOnly: false },
+      { itemId: 5339, quantity: 4, hqOnly: true },
+    ]);
+  });
+
+  it("merges repeated items and caps the quantity", () => {
+    const { lines } = parseShoppingList("5057 9000\n5057 x 9000", resolveName);
+    expect(lines).toEqual([{ itemId: 5057, quantity: 9999, hqOnly: false }]);
+  });
+
+  it("reports unknown and ambiguous names", () => {
+    const { lines, errors } = parseShoppingList(
+      "Unobtainium 1\nIron 5",
+      resolveName
+    );
+    expect(lines).toEqual([]);
+    expect(errors).toEqual([
+      "第 1 行找不到物品：Unobtainium",
+      "第 2 行有 2 個物品符合：Iron，請寫完整名稱或 ID",
+    ]);
+  });
+});
+
+// ===== Planner =====
+describe("cheapestCover", () => {
+  it("buys one larger stack when it beats several cheaper ones", () => {
+    const big = listing(12, 10);
+    const chosen = cheapestCover([listing(10, 6), listing(11, 6), big], 10);
+    expect(chosen).toEqual([big]);
+  });
+
+  it("matches a brute-force search over every subset", () => {
+    const candidates = [
+      listing(5, 3),
+      listing(6, 4),
+      listing(7, 2),
+      listing(9, 5),
+      listing(4, 1),
+      listing(20, 8),
+    ];
+    for (let n = 1; n <= supplyOf(candidates); n++) {
+      let best = Infinity;
+      for (let mask = 1; mask < 1 << candidates.length; mask++) {
+        const subset = candidates.filter((_, i) => mask & (1 << i));
+        if (supplyOf(subset) >= n) best = Math.min(best, costOf(subset));
+      }
+      const chosen = cheapestCover(candidates, n);
+      expect(supplyOf(chosen)).toBeGreaterThanOrEqual(n);
+      expect(costOf(chosen)).toBe(best);
+    }
+  });
+});
+
+describe("planItem", () => {
+  it("buys everything and reports the shortfall when supply runs out", () => {
+    const plan = planItem({ itemId: 1, quantity: 10, hqOnly: false }, [
+      listing(10, 3),
+      listing(20, 2),
+    ]);
+    expect(plan.bought).toBe(5);
+    expect(plan.shortfall).toBe(5);
+    expect(plan.cost).toBe(70);
+  });
+
+  it("only uses HQ listings for HQ lines", () => {
+    const hq = listing(50, 5, { hq: true });
+    const plan = planItem({ itemId: 1, quantity: 5, hqOnly: true }, [
+      listing(10, 5),
+      hq,
+    ]);
+    expect(plan.purchases.map((p) => p.listing)).toEqual([hq]);
+  });
+});
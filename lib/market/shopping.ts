@@ -0,0 +1,328 @@
+import { z } from "zod";
+import { createLocalStore } from "@/lib/market/local-store";
+import type { MarketListing, PriceSnapshot } from "@/lib/market/prices";
+
+// ===== Type Definitions =====
+export type ShoppingLine = {
+  itemId: number;
+  quantity: number;
+  hqOnly: boolean;
+};
+
+// 一筆要買下的上架 (市場板只能整筆買)
+export type PlannedPurchase = {
+  itemId: number;
+  listing: MarketListing;
+  total: number; // 單價 × 數量 (未稅)
+};
+
+export type ItemPlan = {
+  itemId: number;
+  requested: number;
+  bought: number;
+  cost: number;
+  shortfall: number; // 全部上架加起來都不夠時差多少
+  purchases: PlannedPurchase[];
+};
+
+export type WorldStop = {
+  worldName: string;
+  purchases: PlannedPurchase[];
+  subtotal: number;
+};
+
+export type ShoppingPlan = {
+  items: ItemPlan[];
+  stops: WorldStop[];
+  total: number;
+};
+
+export type ParseResult = {
+  lines: ShoppingLine[];
+  errors: string[];
+};
+
+// ===== Config / Constants =====
+const STORAGE_KEY = "ffxiv-market:shopping-list";
+
+export const MAX_LINE_QUANTITY = 9999;
+
+// 每個物品抓多少筆上架來湊數量；買到上限 9999 個時最便宜的幾筆常常不夠
+export const SHOPPING_LISTINGS_PER_ITEM = 100;
+
+// 每多跑一個伺服器值多少 gil；省下的錢比這少就不值得多跑一趟
+export const DEFAULT_WORLD_VISIT_COST = 2000;
+
+// ===== Store =====
+// 只存使用者輸入的原文，重新整理後還在
+export const shoppingListStore = createLocalStore(STORAGE_KEY, z.string(), "");
+
+// ===== Parser =====
+// 數量前一定要有空白 (可以寫成 `x 3`、`× 3`、`* 3`)，
+// 不然 `5057` 會被拆成 5 × 57、`Beeswax 3` 會被拆成 `Beeswa` × 3
+const LINE_RE = /^(.+?)\s+(?:[x×*]\s*)?(\d+)(?:\s+(hq))?$/i;
+
+/**
+ * 一行一個物品：`物品 ID 或名稱 [x] 數量 [HQ]`，例如 `5057 x 99`、`鐵礦 30 HQ`。
+ * `resolveName` 回傳名稱可能對應的物品 ID，剛好一個才採用，多個時要使用者寫清楚。
+ * 同一個物品出現多次會把數量加總。
+ */
+export function parseShoppingList(
+  text: string,
+  resolveName: (name: string) => number[]
+): ParseResult {
+  const merged = new Map<string, ShoppingLine>();
+  const errors: string[] = [];
+
+  for (const [i, raw] of text.split("\n").entries()) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const m = line.match(LINE_RE);
+    if (!m) {
+      errors.push(`第 ${i + 1} 行缺少數量：${line}`);
+      continue;
+    }
+    const [, rawTarget, qty, hq] = m;
+    const target = rawTarget.trim();
+    let itemId: number;
+    if (/^\d+$/.test(target)) {
+      itemId = Number(target);
+    } else {
+      const matches = resolveName(target);
+      if (matches.length > 1) {
+        errors.push(
+          `第 ${i + 1} 行有 ${matches.length} 個物品符合：${target}，請寫完整名稱或 ID`
+        );
+        continue;
+      }
+      itemId = matches[0] ?? 0;
+    }
+    const quantity = Math.min(Number(qty), MAX_LINE_QUANTITY);
+    if (!itemId) {
+      errors.push(`第 ${i + 1} 行找不到物品：${target}`);
+      continue;
+    }
+    if (quantity <= 0) continue;
+
+    const key = `${itemId}:${hq ? "hq" : "any"}`;
+    const prev = merged.get(key);
+    merged.set(key, {
+      itemId,
+      quantity: Math.min((prev?.quantity ?? 0) + quantity, MAX_LINE_QUANTITY),
+      hqOnly: Boolean(hq),
+    });
+  }
+
+  return { lines: Array.from(merged.values()), errors };
+}
+
+// ===== Planner =====
+/**
+ * 以最少花費湊到至少 `requested` 個 (0/1 背包的覆蓋版本)。
+ * 上架只能整筆買，所以單價最低不一定最省；全部加起來不夠時就全買。
+ */
+export function planItem(
+  line: ShoppingLine,
+  listings: MarketListing[],
+  allowedWorlds?: Set<string>
+): ItemPlan {
+  const candidates = listings.filter(
+    (l) =>
+      l.pricePerUnit > 0 &&
+      l.quantity > 0 &&
+      (!line.hqOnly || l.hq) &&
+      (!allowedWorlds || allowedWorlds.has(l.worldName))
+  );
+  const n = line.quantity;
+  const supply = candidates.reduce((sum, l) => sum + l.quantity, 0);
+
+  const chosen = supply <= n ? candidates : cheapestCover(candidates, n);
+
+  const purchases = chosen
+    .map((listing) => ({
+      itemId: line.itemId,
+      listing,
+      total: listing.pricePerUnit * listing.quantity,
+    }))
+    .sort((a, b) => a.listing.pricePerUnit - b.listing.pricePerUnit);
+  const bought = purchases.reduce((sum, p) => sum + p.listing.quantity, 0);
+
+  return {
+    itemId: line.itemId,
+    requested: n,
+    bought,
+    cost: purchases.reduce((sum, p) => sum + p.total, 0),
+    shortfall: Math.max(0, n - bought),
+    purchases,
+  };
+}
+
+/**
+ * rows[i][q] = 只用前 i 筆上架、湊到 q 個 (q = n 代表「至少 n 個」) 的最低花費。
+ * 算完再從最後一筆往前回推選了哪些。
+ */
+export function cheapestCover(candidates: MarketListing[], n: number) {
+  const first = new Float64Array(n + 1).fill(Infinity);
+  first[0] = 0;
+  const rows = [first];
+
+  for (const l of candidates) {
+    const prev = rows[rows.length - 1];
+    const next = prev.slice();
+    const price = l.pricePerUnit * l.quantity;
+    for (let q = 0; q <= n; q++) {
+      if (prev[q] === Infinity) continue;
+      const to = Math.min(n, q + l.quantity);
+      if (prev[q] + price < next[to]) next[to] = prev[q] + price;
+    }
+    rows.push(next);
+  }
+
+  const chosen: MarketListing[] = [];
+  let q = n;
+  for (let i = candidates.length - 1; i >= 0 && q > 0; i--) {
+    const before = rows[i];
+    const after = rows[i + 1];
+    if (after[q] === before[q]) continue; // 不選第 i 筆也一樣便宜
+
+    const l = candidates[i];
+    const price = l.pricePerUnit * l.quantity;
+    const lowest = q < n ? q - l.quantity : Math.max(0, n - l.quantity);
+    for (let from = Math.max(0, lowest); from <= q; from++) {
+      if (
+        Math.min(n, from + l.quantity) === q &&
+        before[from] + price === after[q]
+      ) {
+        chosen.push(l);
+        q = from;
+        break;
+      }
+    }
+  }
+  return chosen;
+}
+
+function planAll(
+  lines: ShoppingLine[],
+  snapshots: Map<number, PriceSnapshot>,
+  allowedWorlds?: Set<string>
+) {
+  return lines.map((line) =>
+    planItem(line, snapshots.get(line.itemId)?.listings ?? [], allowedWorlds)
+  );
+}
+
+function worldsOf(items: ItemPlan[]) {
+  return new Set(
+    items.flatMap((p) => p.purchases.map((x) => x.listing.worldName))
+  );
+}
+
+function sumCost(items: ItemPlan[]) {
+  return items.reduce((sum, p) => sum + p.cost, 0);
+}
+
+function sumShortfall(items: ItemPlan[]) {
+  return items.reduce((sum, p) => sum + p.shortfall, 0);
+}
+
+/**
+ * 先讓每個物品各自買最便宜的，再逐一試著拿掉一個伺服器：
+ * 多花的錢少於 `worldVisitCost` 而且不會因此買不齊，就少跑那一趟。
+ * 每輪拿掉最划算的一個，直到沒有可以省的為止。
+ */
+export function optimizeShoppingList(
+  lines: ShoppingLine[],
+  snapshots: Map<number, PriceSnapshot>,
+  worldVisitCost = DEFAULT_WORLD_VISIT_COST
+): ShoppingPlan {
+  let items = planAll(lines, snapshots);
+  const shortfall = sumShortfall(items);
+
+  while (worldVisitCost > 0) {
+    const worlds = worldsOf(items);
+    if (worlds.size <= 1) break;
+
+    let best: { items: ItemPlan[]; saving: number } | null = null;
+    for (const world of worlds) {
+      const allowed = new Set(worlds);
+      allowed.delete(world);
+      // 沒在這個伺服器買東西的物品不用重算
+      const next = items.map((plan, i) =>
+        plan.purchases.some((p) => p.listing.worldName === world)
+          ? planItem(
+              lines[i],
+              snapshots.get(lines[i].itemId)?.listings ?? [],
+              allowed
+            )
+          : plan
+      );
+      if (sumShortfall(next) > shortfall) continue;
+
+      const saving = worldVisitCost - (sumCost(next) - sumCost(items));
+      if (saving > 0 && (!best || saving > best.saving)) {
+        best = { items: next, saving };
+      }
+    }
+    if (!best) break;
+    items = best.items;
+  }
+
+  const byWorld = new Map<string, WorldStop>();
+  for (const plan of items) {
+    for (const p of plan.purchases) {
+      const name = p.listing.worldName;
+      const stop = byWorld.get(name) ?? {
+        worldName: name,
+        purchases: [],
+        subtotal: 0,
+      };
+      stop.purchases.push(p);
+      stop.subtotal += p.total;
+      byWorld.set(name, stop);
+    }
+  }
+
+  return {
+    items,
+    // 要買的東西多的伺服器排前面
+    stops: Array.from(byWorld.values()).sort(
+      (a, b) => b.purchases.length - a.purchases.length
+    ),
+    total: sumCost(items),
+  };
+}
+
+// ===== Export =====
+/** 複製到 Discord / 記事本用的純文字清單 */
+export function formatShoppingChecklist(
+  plan: ShoppingPlan,
+  nameOf: (itemId: number) => string,
+  gilFmt: Intl.NumberFormat
+) {
+  const out: string[] = [];
+  for (const stop of plan.stops) {
+    out.push(`【${stop.worldName}】 ${gilFmt.format(stop.subtotal)} gil`);
+    for (const p of stop.purchases) {
+      out.push(
+        `[ ] ${nameOf(p.itemId)}${p.listing.hq ? " HQ" : ""} x${
+          p.listing.quantity
+        } @ ${gilFmt.format(p.listing.pricePerUnit)} (${
+          p.listing.retainerName || "?"
+        })`
+      );
+    }
+    out.push("");
+  }
+
+  const short = plan.items.filter((p) => p.shortfall > 0);
+  if (short.length) {
+    out.push("買不齊：");
+    for (const p of short)
+      out.push(`- ${nameOf(p.itemId)} 還差 ${p.shortfall}`);
+    out.push("");
+  }
+  out.push(`合計 ${gilFmt.format(plan.total)} gil (未稅)`);
+  return out.join("\n");
+}
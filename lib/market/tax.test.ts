@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TAX_RATE, priceWithTax } from "@/lib/market/tax";
+
+describe("priceWithTax", () => {
+  it("adds the buyer's tax on top of the listed price", () => {
+    expect(priceWithTax(1000, 0.05)).toBe(1050);
+    expect(priceWithTax(1000, 0)).toBe(1000);
+  });
+
+  it("rounds the tax down", () => {
+    expect(priceWithTax(99, 0.05)).toBe(103);
+    expect(priceWithTax(19, 0.03)).toBe(19);
+  });
+
+  it("defaults to the standard rate", () => {
+    expect(priceWithTax(200)).toBe(200 + 200 * DEFAULT_TAX_RATE);
+  });
+});
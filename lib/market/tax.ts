@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { createLocalStore } from "@/lib/market/local-store";
+import { safeNum } from "@/lib/market/utils";
+import * as universalis from "@/lib/universalis/client";
+
+// ===== Type Definitions =====
+// 與 Universalis `/tax-rates` 回傳的 key 相同
+const citySchema = z.enum([
+  "Limsa Lominsa",
+  "Gridania",
+  "Ul'dah",
+  "Ishgard",
+  "Kugane",
+  "Crystarium",
+  "Old Sharlayan",
+  "Tuliyollal",
+]);
+
+export type City = z.infer<typeof citySchema>;
+
+// 各城市的稅率，0.05 代表 5%
+export type TaxRates = Record<City, number>;
+
+// ===== Config / Constants =====
+const STORAGE_KEY = "ffxiv-market:tax";
+
+export const DEFAULT_TAX_RATE = 0.05;
+
+export const CITIES = citySchema.options;
+
+export const CITY_LABELS: Record<City, string> = {
+  "Limsa Lominsa": "利姆薩·羅敏薩",
+  Gridania: "格里達尼亞",
+  "Ul'dah": "烏爾達哈",
+  Ishgard: "伊修加德",
+  Kugane: "黃金港",
+  Crystarium: "水晶都",
+  "Old Sharlayan": "舊薩雷安",
+  Tuliyollal: "圖萊尤拉",
+};
+
+export const DEFAULT_TAX_RATES = Object.fromEntries(
+  CITIES.map((c) => [c, DEFAULT_TAX_RATE])
+) as TaxRates;
+
+// ===== Store =====
+// 市場稅由買方付，稅率看賣方雇員所在的城市；
+// 查不到個別上架的稅時，以這裡選的城市估算買入成本
+export const taxCityStore = createLocalStore<City>(
+  STORAGE_KEY,
+  citySchema,
+  "Limsa Lominsa"
+);
+
+// ===== Helpers =====
+/**
+ * 買方實際付的錢：標價加上稅 (稅額無條件捨去)。
+ * 賣方拿到的就是標價，不用再扣稅。
+ */
+export function priceWithTax(price: number, taxRate = DEFAULT_TAX_RATE) {
+  return price + Math.floor(price * taxRate);
+}
+
+// ===== Fetcher =====
+/** Universalis 回傳的是百分比整數，缺的城市用預設稅率補上 */
+export async function fetchTaxRates(
+  world: string,
+  signal?: AbortSignal
+): Promise<TaxRates> {
+  const data = await universalis.fetchTaxRates(world, { signal });
+
+  const rates = { ...DEFAULT_TAX_RATES };
+  for (const city of CITIES) {
+    if (city in data) rates[city] = safeNum(data[city]) / 100;
+  }
+  return rates;
+}
+
+// 稅率一週才變一次，同一個伺服器查一次就好
+const rateCache = new Map<string, Promise<TaxRates>>();
+
+/** 查不到時回傳預設稅率，不讓利潤計算整個失敗 */
+export function getTaxRates(world: string): Promise<TaxRates> {
+  let pending = rateCache.get(world);
+  if (!pending) {
+    pending = fetchTaxRates(world).catch((e) => {
+      console.error(`Tax rate fetch error (${world}):`, e);
+      rateCache.delete(world);
+      return DEFAULT_TAX_RATES;
+    });
+    rateCache.set(world, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GRID_VIEW } from "@/lib/market/grid-view";
+import {
+  DEFAULT_MARKET_URL_STATE,
+  buildMarketParams,
+  parseMarketParams,
+  type MarketUrlState,
+} from "@/lib/market/url-state";
+
+function parse(qs: string) {
+  return parseMarketParams(new URLSearchParams(qs));
+}
+
+describe("parseMarketParams", () => {
+  it("falls back to the defaults for an empty query", () => {
+    expect(parse("")).toEqual(DEFAULT_MARKET_URL_STATE);
+  });
+
+  it("reads filters, sort and paging", () => {
+    const state = parse(
+      "world=Tonberry&q=iron&page=3&kind=2&cat=45&sort=minAll&desc=1&min=100&max=12000&listings=5&velocity=1.5&hq=1&stale=hide&n=10&staleh=48"
+    );
+    expect(state).toEqual<MarketUrlState>({
+      world: "Tonberry",
+      q: "iron",
+      page: 3,
+      category: { kind: 2, category: 45 },
+      view: {
+        sortKey: "minAll",
+        sortDesc: true,
+        filters: {
+          minPrice: 100,
+          maxPrice: 12000,
+          minListings: 5,
+          minSalesPerDay: 1.5,
+          onlyHQ: true,
+        },
+        staleMode: "hide",
+        staleHours: 48,
+        quantity: 10,
+      },
+    });
+  });
+
+  it("drops malformed values instead of failing", () => {
+    const { page, view } = parse(
+      "page=0&sort=bogus&min=1.5&max=-3&listings=abc&n=0&stale=nope"
+    );
+    expect(page).toBe(1);
+    expect(view.sortKey).toBe("default");
+    expect(view.filters.minPrice).toBeNull();
+    expect(view.filters.maxPrice).toBeNull();
+    expect(view.filters.minListings).toBeNull();
+    expect(view.quantity).toBe(DEFAULT_GRID_VIEW.quantity);
+    expect(view.staleMode).toBe("show");
+  });
+});
+
+describe("buildMarketParams", () => {
+  it("omits parameters that equal the defaults", () => {
+    expect(buildMarketParams(DEFAULT_MARKET_URL_STATE).toString()).toBe("");
+  });
+
+  it("round-trips through parseMarketParams", () => {
+    const state: MarketUrlState = {
+      ...DEFAULT_MARKET_URL_STATE,
+      world: "Tonberry",
+      page: 2,
+      view: {
+        ...DEFAULT_GRID_VIEW,
+        sortKey: "quantityCost",
+        sortDesc: true,
+        filters: {
+          minPrice: 10,
+          maxPrice: null,
+          minListings: 3,
+          minSalesPerDay: 0.5,
+          onlyHQ: true,
+        },
+        quantity: 99,
+      },
+    };
+    expect(parseMarketParams(buildMarketParams(state))).toEqual(state);
+  });
+});
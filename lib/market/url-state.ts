@@ -0,0 +1,109 @@
+import { ALL_CATEGORIES, type CategoryFilter } from "@/lib/market/categories";
+import { STALE_MODE_LABELS, type StaleMode } from "@/lib/market/freshness";
+import {
+  DEFAULT_GRID_VIEW,
+  GRID_SORT_LABELS,
+  parseDecimal,
+  parseWholeNumber,
+  type GridSortKey,
+  type GridView,
+} from "@/lib/market/grid-view";
+import { DEFAULT_DC } from "@/lib/market/worlds";
+
+// ===== Type Definitions =====
+// 首頁可以分享的狀態；全部放在 query string，重新整理或上一頁都能還原
+export type MarketUrlState = {
+  world: string;
+  q: string;
+  page: number;
+  category: CategoryFilter;
+  view: GridView;
+};
+
+export const DEFAULT_MARKET_URL_STATE: MarketUrlState = {
+  world: DEFAULT_DC,
+  q: "",
+  page: 1,
+  category: ALL_CATEGORIES,
+  view: DEFAULT_GRID_VIEW,
+};
+
+// ===== Helpers =====
+function readInt(params: URLSearchParams, key: string, min = 0) {
+  return parseWholeNumber(params.get(key), min);
+}
+
+function readNum(params: URLSearchParams, key: string) {
+  return parseDecimal(params.get(key));
+}
+
+function isSortKey(value: string | null): value is GridSortKey {
+  return value !== null && Object.hasOwn(GRID_SORT_LABELS, value);
+}
+
+function isStaleMode(value: string | null): value is StaleMode {
+  return value !== null && Object.hasOwn(STALE_MODE_LABELS, value);
+}
+
+// ===== Parse / Build =====
+/** 解析 query string；格式不對的參數直接當成預設值 */
+export function parseMarketParams(params: URLSearchParams): MarketUrlState {
+  const sort = params.get("sort");
+  const stale = params.get("stale");
+  const category = readInt(params, "cat", 1);
+
+  return {
+    world: params.get("world") || DEFAULT_DC,
+    q: params.get("q") ?? "",
+    page: readInt(params, "page", 1) ?? 1,
+    category: {
+      kind: readInt(params, "kind", 1),
+      category,
+    },
+    view: {
+      sortKey: isSortKey(sort) ? sort : "default",
+      sortDesc: params.get("desc") === "1",
+      filters: {
+        minPrice: readInt(params, "min"),
+        maxPrice: readInt(params, "max"),
+        minListings: readInt(params, "listings"),
+        minSalesPerDay: readNum(params, "velocity"),
+        onlyHQ: params.get("hq") === "1",
+      },
+      staleMode: isStaleMode(stale) ? stale : "show",
+      staleHours: readInt(params, "staleh", 1) ?? DEFAULT_GRID_VIEW.staleHours,
+      quantity: readInt(params, "n", 1) ?? DEFAULT_GRID_VIEW.quantity,
+    },
+  };
+}
+
+/** 反過來組成 query string，與預設值相同的參數不寫出來 */
+export function buildMarketParams(state: MarketUrlState) {
+  const params = new URLSearchParams();
+  const { view, category } = state;
+  const set = (key: string, value: string | number | null | false) => {
+    if (value !== null && value !== false && value !== "") {
+      params.set(key, String(value));
+    }
+  };
+
+  set("world", state.world !== DEFAULT_DC && state.world);
+  set("q", state.q.trim());
+  set("page", state.page > 1 && state.page);
+  set("kind", category.kind);
+  set("cat", category.category);
+  set("sort", view.sortKey !== "default" && view.sortKey);
+  set("desc", view.sortKey !== "default" && view.sortDesc && 1);
+  set("min", view.filters.minPrice);
+  set("max", view.filters.maxPrice);
+  set("listings", view.filters.minListings);
+  set("velocity", view.filters.minSalesPerDay);
+  set("hq", view.filters.onlyHQ && 1);
+  set("stale", view.staleMode !== "show" && view.staleMode);
+  set("n", view.quantity > 1 && view.quantity);
+  set(
+    "staleh",
+    view.staleHours !== DEFAULT_GRID_VIEW.staleHours && view.staleHours
+  );
+  return params;
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { createLocalStore, genLocalId } from "@/lib/market/local-store";
+
+// ===== Type Definitions =====
+const watchlistSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  itemIds: z.array(z.number().int().positive()),
+  createdAt: z.number(),
+});
+
+// 匯出 / 匯入用的檔案格式，加版本號方便以後改格式
+const watchlistFileSchema = z.object({
+  version: z.literal(1),
+  watchlists: z.array(watchlistSchema),
+});
+
+export type Watchlist = z.infer<typeof watchlistSchema>;
+
+// ===== Config / Constants =====
+const STORAGE_KEY = "ffxiv-market:watchlists";
+const EMPTY: Watchlist[] = [];
+
+// ===== Store =====
+export const watchlistStore = createLocalStore(
+  STORAGE_KEY,
+  z.array(watchlistSchema),
+  EMPTY
+);
+
+// ===== Actions =====
+export function createWatchlist(name: string, itemIds: number[] = []) {
+  const list: Watchlist = {
+    id: genLocalId(),
+    name: name.trim() || "未命名清單",
+    itemIds: Array.from(new Set(itemIds)),
+    createdAt: Date.now(),
+  };
+  watchlistStore.set([...watchlistStore.get(), list]);
+  return list;
+}
+
+export function renameWatchlist(id: string, name: string) {
+  if (!name.trim()) return;
+  watchlistStore.set(
+    watchlistStore
+      .get()
+      .map((l) => (l.id === id ? { ...l, name: name.trim() } : l))
+  );
+}
+
+export function deleteWatchlist(id: string) {
+  watchlistStore.set(watchlistStore.get().filter((l) => l.id !== id));
+}
+
+export function toggleWatchlistItem(id: string, itemId: number) {
+  watchlistStore.set(
+    watchlistStore.get().map((l) => {
+      if (l.id !== id) return l;
+      const has = l.itemIds.includes(itemId);
+      return {
+        ...l,
+        itemIds: has
+          ? l.itemIds.filter((x) => x !== itemId)
+          : [...l.itemIds, itemId],
+      };
+    })
+  );
+}
+
+// ===== Import / Export =====
+export function exportWatchlists(lists: Watchlist[] = watchlistStore.get()) {
+  return JSON.stringify({ version: 1, watchlists: lists }, null, 2);
+}
+
+/**
+ * 匯入隊友分享的 JSON。格式不對會丟出錯誤；
+ * 與現有清單 ID 重複的會換一個新 ID，不會覆蓋自己的清單。
+ */
+export function importWatchlists(json: string): number {
+  const parsed = watchlistFileSchema.safeParse(JSON.parse(json));
+  if (!parsed.success) throw new Error("Invalid watchlist file");
+
+  const current = watchlistStore.get();
+  const existingIds = new Set(current.map((l) => l.id));
+  const incoming = parsed.data.watchlists.map((l) =>
+    existingIds.has(l.id) ? { ...l, id: genLocalId() } : l
+  );
+
+  watchlistStore.set([...current, ...incoming]);
+  return incoming.length;
+}
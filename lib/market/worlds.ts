@@ -0,0 +1,105 @@
+import bundledWorldData from "@/lib/market/world-data.json";
+
+// ===== Type Definitions =====
+// 與 Universalis `/worlds`、`/data-centers` 回傳的形狀相同
+export type World = {
+  id: number;
+  name: string;
+};
+
+export type DataCenter = {
+  name: string;
+  region: string;
+  worlds: number[];
+};
+
+export type ScopeKind = "region" | "dc" | "world";
+
+// Universalis 的查詢範圍：可以是區域、資料中心或單一伺服器
+export type MarketScope = {
+  kind: ScopeKind;
+  name: string;
+  region: string;
+  dataCenter?: string;
+};
+
+export type WorldRegistry = {
+  regions: string[];
+  dataCenters: DataCenter[];
+  worldsById: Map<number, World>;
+  scopes: Map<string, MarketScope>;
+};
+
+// ===== Config / Constants =====
+export const DEFAULT_DC = "陸行鳥";
+
+// ===== Registry =====
+export function buildWorldRegistry(
+  worlds: World[],
+  dataCenters: DataCenter[]
+): WorldRegistry {
+  const worldsById = new Map(worlds.map((w) => [w.id, w]));
+  const scopes = new Map<string, MarketScope>();
+  const regions: string[] = [];
+
+  for (const dc of dataCenters) {
+    if (!regions.includes(dc.region)) {
+      regions.push(dc.region);
+      scopes.set(dc.region, {
+        kind: "region",
+        name: dc.region,
+        region: dc.region,
+      });
+    }
+    scopes.set(dc.name, {
+      kind: "dc",
+      name: dc.name,
+      region: dc.region,
+      dataCenter: dc.name,
+    });
+    for (const id of dc.worlds) {
+      const w = worldsById.get(id);
+      if (!w) continue;
+      scopes.set(w.name, {
+        kind: "world",
+        name: w.name,
+        region: dc.region,
+        dataCenter: dc.name,
+      });
+    }
+  }
+
+  return { regions, dataCenters, worldsById, scopes };
+}
+
+export const BUNDLED_WORLD_REGISTRY = buildWorldRegistry(
+  bundledWorldData.worlds,
+  bundledWorldData.dataCenters
+);
+
+// ===== Helper Functions =====
+export function getScope(registry: WorldRegistry, name: string) {
+  return registry.scopes.get(name);
+}
+
+/** 區域與資料中心會跨多個伺服器，這時價格要標示是哪個伺服器的 */
+export function isMultiWorldScope(registry: WorldRegistry, name: string) {
+  const scope = registry.scopes.get(name);
+  return scope ? scope.kind !== "world" : false;
+}
+
+export function dataCentersInRegion(registry: WorldRegistry, region: string) {
+  return registry.dataCenters.filter((dc) => dc.region === region);
+}
+
+export function worldsInDataCenter(
+  registry: WorldRegistry,
+  dcName: string
+): World[] {
+  const dc = registry.dataCenters.find((d) => d.name === dcName);
+  if (!dc) return [];
+  return dc.worlds
+    .map((id) => registry.worldsById.get(id))
+    .filter((w): w is World => Boolean(w))
+    .sort((a, b) => a.id - b.id);
+}
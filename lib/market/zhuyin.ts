@@ -0,0 +1,114 @@
+// 無聲調拼音 → 注音。只處理標準普通話音節，
+// 對不上的 (例如嘆詞 hm、ng) 原樣回傳。
+
+// ===== Config / Constants =====
+const INITIALS: [string, string][] = [
+  ["zh", "ㄓ"],
+  ["ch", "ㄔ"],
+  ["sh", "ㄕ"],
+  ["b", "ㄅ"],
+  ["p", "ㄆ"],
+  ["m", "ㄇ"],
+  ["f", "ㄈ"],
+  ["d", "ㄉ"],
+  ["t", "ㄊ"],
+  ["n", "ㄋ"],
+  ["l", "ㄌ"],
+  ["g", "ㄍ"],
+  ["k", "ㄎ"],
+  ["h", "ㄏ"],
+  ["j", "ㄐ"],
+  ["q", "ㄑ"],
+  ["x", "ㄒ"],
+  ["r", "ㄖ"],
+  ["z", "ㄗ"],
+  ["c", "ㄘ"],
+  ["s", "ㄙ"],
+];
+
+const FINALS: Record<string, string> = {
+  a: "ㄚ",
+  o: "ㄛ",
+  e: "ㄜ",
+  ai: "ㄞ",
+  ei: "ㄟ",
+  ao: "ㄠ",
+  ou: "ㄡ",
+  an: "ㄢ",
+  en: "ㄣ",
+  ang: "ㄤ",
+  eng: "ㄥ",
+  er: "ㄦ",
+  i: "ㄧ",
+  ia: "ㄧㄚ",
+  ie: "ㄧㄝ",
+  iao: "ㄧㄠ",
+  iu: "ㄧㄡ",
+  ian: "ㄧㄢ",
+  in: "ㄧㄣ",
+  iang: "ㄧㄤ",
+  ing: "ㄧㄥ",
+  iong: "ㄩㄥ",
+  u: "ㄨ",
+  ua: "ㄨㄚ",
+  uo: "ㄨㄛ",
+  uai: "ㄨㄞ",
+  ui: "ㄨㄟ",
+  uan: "ㄨㄢ",
+  un: "ㄨㄣ",
+  uang: "ㄨㄤ",
+  ueng: "ㄨㄥ",
+  ong: "ㄨㄥ",
+  v: "ㄩ",
+  ve: "ㄩㄝ",
+  van: "ㄩㄢ",
+  vn: "ㄩㄣ",
+};
+
+// y / w 開頭的音節先還原成零聲母的韻母寫法
+const Y_W_FINALS: Record<string, string> = {
+  yi: "i",
+  ya: "ia",
+  ye: "ie",
+  yao: "iao",
+  you: "iu",
+  yan: "ian",
+  yin: "in",
+  yang: "iang",
+  ying: "ing",
+  yong: "iong",
+  yu: "v",
+  yue: "ve",
+  yuan: "van",
+  yun: "vn",
+  wu: "u",
+  wa: "ua",
+  wo: "uo",
+  wai: "uai",
+  wei: "ui",
+  wan: "uan",
+  wen: "un",
+  wang: "uang",
+  weng: "ueng",
+};
+
+// ===== Converter =====
+export function pinyinToZhuyin(syllable: string): string {
+  const s = syllable.toLowerCase().replace(/ü/g, "v");
+  if (Y_W_FINALS[s]) return FINALS[Y_W_FINALS[s]];
+
+  const initial = INITIALS.find(([py]) => s.startsWith(py));
+  if (!initial) return FINALS[s] ?? syllable;
+
+  let final = s.slice(initial[0].length);
+  // zhi / chi / shi / ri / zi / ci / si 的 i 不寫出來
+  if (final === "i" && "zh ch sh r z c s".split(" ").includes(initial[0])) {
+    return initial[1];
+  }
+  // j / q / x 後面的 u 其實是 ü
+  if ("jqx".includes(initial[0]) && final.startsWith("u")) {
+    final = "v" + final.slice(1);
+  }
+  const zhuyin = FINALS[final];
+  return zhuyin ? initial[1] + zhuyin : syllable;
+}
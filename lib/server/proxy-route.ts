@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { fetchUpstream, type Upstream } from "@/lib/server/upstream";
+
+type RouteContext = {
+  params: Promise<{ path: string[] }>;
+};
+
+/**
+ * 產生 `app/api/<upstream>/[...path]/route.ts` 用的 GET handler。
+ * 瀏覽器只打我們自己的 API，由這裡統一快取、合併請求再轉給上游。
+ */
+export function createProxyHandler(upstream: Upstream) {
+  return async function GET(req: NextRequest, { params }: RouteContext) {
+    const { path } = await params;
+    // 世界名稱是中文要重新編碼，但 ID 清單的逗號保留原樣
+    const joined = path
+      .map((seg) => encodeURIComponent(seg).replace(/%2C/gi, ","))
+      .join("/");
+
+    try {
+      const result = await fetchUpstream(
+        upstream,
+        joined,
+        req.nextUrl.searchParams
+      );
+      if (!result) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+
+      const { response, hit } = result;
+      return new NextResponse(response.body, {
+        status: response.status,
+        headers: {
+          "content-type": response.contentType,
+          "x-cache": hit ? "HIT" : "MISS",
+        },
+      });
+    } catch (e) {
+      console.error(`Proxy ${upstream} error:`, e);
+      return NextResponse.json(
+        { error: "Upstream unavailable" },
+        { status: 502 }
+      );
+    }
+  };
+}
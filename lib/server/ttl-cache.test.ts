@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { TtlCache } from "@/lib/server/ttl-cache";
+
+describe("TtlCache", () => {
+  it("evicts the least recently used entries once over the size limit", () => {
+    const cache = new TtlCache<string>(10, (v) => v.length);
+    cache.set("a", "aaaa", 1000);
+    cache.set("b", "bbbb", 1000);
+    cache.get("a");
+    cache.set("c", "cccc", 1000);
+
+    expect(cache.get("a")).toBe("aaaa");
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toBe("cccc");
+  });
+
+  it("skips a value larger than the whole cache", () => {
+    const cache = new TtlCache<string>(10, (v) => v.length);
+    cache.set("a", "aaaa", 1000);
+    cache.set("big", "x".repeat(11), 1000);
+
+    expect(cache.get("big")).toBeUndefined();
+    expect(cache.get("a")).toBe("aaaa");
+  });
+});
@@ -0,0 +1,85 @@
+// ===== Type Definitions =====
+type Entry<T> = {
+  value: T;
+  expiresAt: number;
+  size: number;
+};
+
+/**
+ * 簡單的記憶體 TTL 快取，附帶請求合併：
+ * 同一個 key 的 loader 還沒回來前，其他呼叫會拿到同一個 Promise，
+ * 避免大家同時翻到同一頁時對上游打出重複請求。
+ * 容量以 `sizeOf` 加總計算 (預設每筆算 1，也就是筆數)，超過 `maxSize` 就丟最久沒用到的。
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, Entry<T>>();
+  private inflight = new Map<string, Promise<T>>();
+  private totalSize = 0;
+
+  constructor(
+    private maxSize = 500,
+    private sizeOf: (value: T) => number = () => 1
+  ) {}
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalSize -= entry.size;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return undefined;
+    }
+    // 重新插入，讓 Map 的順序維持 LRU
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttlMs: number) {
+    const size = this.sizeOf(value);
+    this.remove(key);
+    // 單筆就超過上限時不存，免得把其他快取全部擠掉
+    if (ttlMs <= 0 || size > this.maxSize) return;
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, size });
+    this.totalSize += size;
+    while (this.totalSize > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+  }
+
+  /**
+   * 有快取就直接回傳；否則執行 loader。
+   * `ttlFor` 可以依結果決定要不要快取 (例如上游錯誤就回傳 0 不存)。
+   */
+  async getOrLoad(
+    key: string,
+    loader: () => Promise<T>,
+    ttlFor: (value: T) => number
+  ): Promise<{ value: T; hit: boolean }> {
+    const cached = this.get(key);
+    if (cached !== undefined) return { value: cached, hit: true };
+
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = loader()
+        .then((value) => {
+          this.set(key, value, ttlFor(value));
+          return value;
+        })
+        .finally(() => {
+          this.inflight.delete(key);
+        });
+      this.inflight.set(key, pending);
+    }
+
+    return { value: await pending, hit: false };
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { findCacheRule } from "@/lib/server/upstream";
+
+describe("findCacheRule", () => {
+  it("allows the endpoints the client uses", () => {
+    for (const path of [
+      "marketable",
+      "worlds",
+      "data-centers",
+      "tax-rates",
+      "history/Bahamut/5057",
+      "%E9%99%B8%E8%A1%8C%E9%B3%A5/5057,5058,5059",
+    ]) {
+      expect(findCacheRule("universalis", path), path).toBeDefined();
+    }
+    for (const path of ["sheet/Item", "sheet/Item/5057", "search"]) {
+      expect(findCacheRule("xivapi", path), path).toBeDefined();
+    }
+  });
+
+  it("rejects anything else", () => {
+    for (const path of [
+      "",
+      "extra/stats/most-recently-updated",
+      "history/Bahamut/5057/extra",
+      "Bahamut/abc",
+      "worlds/../marketable",
+    ]) {
+      expect(findCacheRule("universalis", path), path).toBeUndefined();
+    }
+    for (const path of ["asset", "sheet", "sheet/Item/1/2"]) {
+      expect(findCacheRule("xivapi", path), path).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import type { z } from "zod";
+import { TtlCache } from "@/lib/server/ttl-cache";
+
+// ===== Type Definitions =====
+export type Upstream = "universalis" | "xivapi";
+
+export type UpstreamResponse = {
+  status: number;
+  contentType: string;
+  body: string;
+};
+
+type CacheRule = {
+  pattern: RegExp; // 比對不含 query 的路徑 (世界名稱已經 URL 編碼)
+  ttlMs: number;
+};
+
+// ===== Config / Constants =====
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const DEFAULT_BASE_URLS: Record<Upstream, string> = {
+  universalis: "https://universalis.app/api/v2",
+  xivapi: "https://v2.xivapi.com/api",
+};
+
+// 測試或本地開發時可以指到 mock server
+const BASE_URL_ENV: Record<Upstream, string> = {
+  universalis: "UNIVERSALIS_BASE_URL",
+  xivapi: "XIVAPI_BASE_URL",
+};
+
+// 只代理 App 實際會用到的端點，第一個符合的規則決定 TTL；
+// 不在清單內的路徑一律不代理，免得變成任何人都能用的開放代理。
+const CACHE_RULES: Record<Upstream, CacheRule[]> = {
+  universalis: [
+    { pattern: /^marketable$/, ttlMs: 6 * HOUR },
+    { pattern: /^worlds$/, ttlMs: 24 * HOUR },
+    { pattern: /^data-centers$/, ttlMs: 24 * HOUR },
+    { pattern: /^tax-rates$/, ttlMs: HOUR },
+    { pattern: /^history\/[^/]+\/\d+$/, ttlMs: 5 * MINUTE },
+    // current data：`{world 或 DC}/{逗號分隔的物品 ID}`
+    { pattern: /^[^/]+\/\d+(,\d+)*$/, ttlMs: MINUTE },
+  ],
+  xivapi: [
+    { pattern: /^sheet\/\w+(\/\d+)?$/, ttlMs: 24 * HOUR },
+    { pattern: /^search$/, ttlMs: HOUR },
+  ],
+};
+
+// 快取以回應本文的大小計算上限 (JS 字串每個字元約 2 bytes)
+const MAX_CACHE_BYTES = 64 * 1024 * 1024;
+
+const cache = new TtlCache<UpstreamResponse>(
+  MAX_CACHE_BYTES,
+  (r) => r.body.length * 2
+);
+
+// ===== Helper Functions =====
+export function upstreamBaseUrl(upstream: Upstream) {
+  const fromEnv = process.env[BASE_URL_ENV[upstream]];
+  return (fromEnv || DEFAULT_BASE_URLS[upstream]).replace(/\/+$/, "");
+}
+
+export function findCacheRule(upstream: Upstream, path: string) {
+  return CACHE_RULES[upstream].find((r) => r.pattern.test(path));
+}
+
+// query 參數排序後當 key，`?a=1&b=2` 與 `?b=2&a=1` 共用同一份快取
+function cacheKey(upstream: Upstream, path: string, query: URLSearchParams) {
+  const sorted = new URLSearchParams(
+    Array.from(query.entries()).sort(([a], [b]) => a.localeCompare(b))
+  );
+  const qs = sorted.toString();
+  return `${upstream}:${path}${qs ? `?${qs}` : ""}`;
+}
+
+// ===== Fetcher =====
+/**
+ * 透過快取向上游取資料。只有 2xx 會被快取，429 / 5xx 原樣回給呼叫端。
+ * 回傳 null 表示這個路徑不允許代理。
+ */
+export async function fetchUpstream(
+  upstream: Upstream,
+  path: string,
+  query: URLSearchParams = new URLSearchParams()
+): Promise<{ response: UpstreamResponse; hit: boolean } | null> {
+  const rule = findCacheRule(upstream, path);
+  if (!rule) return null;
+
+  const key = cacheKey(upstream, path, query);
+  const qs = query.toString();
+  const url = `${upstreamBaseUrl(upstream)}/${path}${qs ? `?${qs}` : ""}`;
+
+  const { value, hit } = await cache.getOrLoad(
+    key,
+    async () => {
+      const res = await fetch(url, { cache: "no-store" });
+      return {
+        status: res.status,
+        contentType: res.headers.get("content-type") || "application/json",
+        body: await res.text(),
+      };
+    },
+    (r) => (r.status >= 200 && r.status < 300 ? rule.ttlMs : 0)
+  );
+
+  return { response: value, hit };
+}
+
+/** 取上游 JSON 並用 `schema` 驗證，形狀不符時丟錯而不是回傳未檢查的資料 */
+export async function fetchUpstreamJson<T>(
+  upstream: Upstream,
+  path: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  query?: URLSearchParams
+): Promise<T> {
+  const result = await fetchUpstream(upstream, path, query);
+  if (!result) throw new Error(`Path not proxied: ${upstream}/${path}`);
+  const { status, body } = result.response;
+  if (status < 200 || status >= 300) {
+    throw new Error(`Upstream ${upstream} Error: ${status}`);
+  }
+  const parsed = schema.safeParse(JSON.parse(body));
+  if (!parsed.success) {
+    throw new Error(
+      `Upstream ${upstream} response mismatch (${path}): ${parsed.error.message}`
+    );
+  }
+  return parsed.data;
+}
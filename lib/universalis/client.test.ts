@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  UniversalisError,
+  fetchCurrentItems,
+  fetchWorlds,
+} from "@/lib/universalis/client";
+
+// ===== Test Helpers =====
+function reply(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  } as Response;
+}
+
+function ids(from: number, count: number) {
+  return Array.from({ length: count }, (_, i) => from + i);
+}
+
+// 回傳網址裡的物品 ID 清單，讓多物品回應跟著請求產生
+function requestedIds(url: string) {
+  return url.split("?")[0].split("/").pop()!.split(",").map(Number);
+}
+
+const fetchMock =
+  vi.fn<(url: string, init?: RequestInit) => Promise<Response>>();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// ===== Batching =====
+describe("fetchCurrentItems", () => {
+  it("splits more than 100 IDs into sequential batches", async () => {
+    fetchMock.mockImplementation(async (url) =>
+      reply({
+        items: Object.fromEntries(
+          requestedIds(url).map((id) => [id, { itemID: id }])
+        ),
+      })
+    );
+    const onProgress = vi.fn();
+
+    const items = await fetchCurrentItems("Bahamut", ids(1, 250), {
+      listings: 5,
+      onProgress,
+    });
+
+    expect(
+      fetchMock.mock.calls.map(([url]) => requestedIds(url).length)
+    ).toEqual([100, 100, 50]);
+    expect(items.map((it) => it.itemID)).toEqual(ids(1, 250));
+    expect(onProgress.mock.calls).toEqual([
+      [100, 250],
+      [200, 250],
+      [250, 250],
+    ]);
+  });
+
+  it("reads a single item response without the items wrapper", async () => {
+    fetchMock.mockResolvedValue(
+      reply({ itemID: 5057, listings: [{ pricePerUnit: 120, quantity: 3 }] })
+    );
+
+    const [item] = await fetchCurrentItems("陸行鳥", [5057], {
+      listings: 1,
+      fields: ["items.itemID", "items.listings.pricePerUnit"],
+    });
+
+    const url = fetchMock.mock.calls[0][0];
+    expect(url).toContain(`/${encodeURIComponent("陸行鳥")}/5057?`);
+    expect(new URL(url, "http://x").searchParams.get("fields")).toBe(
+      "itemID,listings.pricePerUnit"
+    );
+    expect(item.itemID).toBe(5057);
+    expect(item.listings[0].pricePerUnit).toBe(120);
+    expect(item.listings[0].hq).toBe(false);
+  });
+});
+
+// ===== Retry / Errors =====
+describe("request", () => {
+  it("retries 429 and 5xx responses with exponential backoff", async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply({}, 429))
+      .mockResolvedValueOnce(reply({}, 503))
+      .mockResolvedValueOnce(reply([{ id: 73, name: "Adamantoise" }]));
+
+    const pending = fetchWorlds();
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(pending).resolves.toEqual([{ id: 73, name: "Adamantoise" }]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries network errors", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(reply([]));
+
+    const pending = fetchWorlds();
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(pending).resolves.toEqual([]);
+  });
+
+  it("gives up after the last retry with the status code", async () => {
+    fetchMock.mockResolvedValue(reply({}, 502));
+
+    const pending = fetchWorlds();
+    const result = expect(pending).rejects.toMatchObject({
+      name: "UniversalisError",
+      status: 502,
+    });
+    await vi.advanceTimersByTimeAsync(500 + 1000 + 2000);
+    await result;
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("does not retry other client errors", async () => {
+    fetchMock.mockResolvedValue(reply({}, 404));
+
+    await expect(fetchWorlds()).rejects.toBeInstanceOf(UniversalisError);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("reports responses that do not match the schema", async () => {
+    fetchMock.mockResolvedValue(reply([{ id: "73" }]));
+
+    const error = await fetchWorlds().catch((e) => e);
+    expect(error).toBeInstanceOf(UniversalisError);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toMatch(/response mismatch \(worlds\)/);
+  });
+
+  it("stops waiting and does not retry once aborted", async () => {
+    fetchMock.mockResolvedValue(reply({}, 503));
+    const controller = new AbortController();
+
+    const pending = fetchWorlds({ signal: controller.signal });
+    const result = expect(pending).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await result;
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("passes the signal to fetch and rethrows its abort", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    fetchMock.mockRejectedValue(controller.signal.reason);
+
+    await expect(
+      fetchWorlds({ signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetchMock.mock.calls[0][1]?.signal).toBe(controller.signal);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,210 @@
+import type { z } from "zod";
+import { UNIVERSALIS_API } from "@/lib/market/api";
+import {
+  currentItemSchema,
+  currentMultiSchema,
+  dataCenterSchema,
+  historySchema,
+  marketableSchema,
+  taxRatesSchema,
+  worldSchema,
+  type UniversalisCurrentItem,
+  type UniversalisDataCenter,
+  type UniversalisSale,
+  type UniversalisTaxRates,
+  type UniversalisWorld,
+} from "@/lib/universalis/schemas";
+
+export type {
+  UniversalisCurrentItem,
+  UniversalisDataCenter,
+  UniversalisListing,
+  UniversalisSale,
+  UniversalisTaxRates,
+  UniversalisWorld,
+} from "@/lib/universalis/schemas";
+
+// ===== Type Definitions =====
+export type RequestOptions = {
+  signal?: AbortSignal;
+};
+
+export type CurrentDataOptions = RequestOptions & {
+  listings: number;
+  entries?: number;
+  // 與 Universalis 相同的寫法 (多物品用 `items.` 前綴)，單一物品時會自動拿掉
+  fields?: string[];
+  onProgress?: (done: number, total: number) => void;
+};
+
+export type HistoryOptions = RequestOptions & {
+  entriesToReturn: number;
+  entriesWithin: number; // 秒
+};
+
+// ===== Config / Constants =====
+// Universalis 一次最多接受 100 個物品 ID
+export const UNIVERSALIS_BATCH_SIZE = 100;
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 500;
+
+// ===== Errors =====
+export class UniversalisError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "UniversalisError";
+  }
+}
+
+// ===== Request Core =====
+function isRetryable(status: number) {
+  return status === 429 || status >= 500;
+}
+
+/** 可以被 AbortSignal 中斷的等待 */
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 打一次 Universalis (經過我們的代理) 並用 zod 驗證回應。
+ * 429 / 5xx 與網路錯誤會以指數退避重試；被 abort 時直接丟出，不重試。
+ */
+async function request<T>(
+  path: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  { signal }: RequestOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(`${UNIVERSALIS_API}/${path}`, { signal });
+    } catch (e) {
+      if (signal?.aborted || attempt >= MAX_RETRIES) throw e;
+      await sleep(RETRY_BASE_MS * 2 ** attempt, signal);
+      continue;
+    }
+
+    if (!res.ok) {
+      if (isRetryable(res.status) && attempt < MAX_RETRIES) {
+        await sleep(RETRY_BASE_MS * 2 ** attempt, signal);
+        continue;
+      }
+      throw new UniversalisError(
+        `Universalis Error: ${res.status} (${path.split("?")[0]})`,
+        res.status
+      );
+    }
+
+    const parsed = schema.safeParse(await res.json());
+    if (!parsed.success) {
+      throw new UniversalisError(
+        `Universalis response mismatch (${path.split("?")[0]}): ${parsed.error.message}`
+      );
+    }
+    return parsed.data;
+  }
+}
+
+// ===== Reference Data =====
+export function fetchMarketable(options?: RequestOptions) {
+  return request("marketable", marketableSchema, options);
+}
+
+export function fetchWorlds(
+  options?: RequestOptions
+): Promise<UniversalisWorld[]> {
+  return request("worlds", worldSchema.array(), options);
+}
+
+export function fetchDataCenters(
+  options?: RequestOptions
+): Promise<UniversalisDataCenter[]> {
+  return request("data-centers", dataCenterSchema.array(), options);
+}
+
+export function fetchTaxRates(
+  world: string,
+  options?: RequestOptions
+): Promise<UniversalisTaxRates> {
+  return request(
+    `tax-rates?world=${encodeURIComponent(world)}`,
+    taxRatesSchema,
+    options
+  );
+}
+
+// ===== Market Data =====
+/**
+ * Current data。超過 100 個 ID 會自動分批依序查詢，
+ * 單一 / 多個物品的回應形狀差異在這裡統一攤平成陣列。
+ */
+export async function fetchCurrentItems(
+  worldOrDc: string,
+  itemIds: number[],
+  { listings, entries = 0, fields, signal, onProgress }: CurrentDataOptions
+): Promise<UniversalisCurrentItem[]> {
+  const result: UniversalisCurrentItem[] = [];
+
+  for (let i = 0; i < itemIds.length; i += UNIVERSALIS_BATCH_SIZE) {
+    const batch = itemIds.slice(i, i + UNIVERSALIS_BATCH_SIZE);
+    const single = batch.length === 1;
+
+    const query = new URLSearchParams({
+      listings: String(listings),
+      entries: String(entries),
+    });
+    if (fields?.length) {
+      // 只查一個物品時回應沒有 `items` 這層，欄位前綴也要跟著拿掉
+      query.set(
+        "fields",
+        (single ? fields.map((f) => f.replace(/^items\./, "")) : fields).join(
+          ","
+        )
+      );
+    }
+    const path = `${encodeURIComponent(worldOrDc)}/${batch.join(",")}?${query}`;
+
+    if (single) {
+      result.push(await request(path, currentItemSchema, { signal }));
+    } else {
+      const data = await request(path, currentMultiSchema, { signal });
+      result.push(...data.items);
+    }
+    onProgress?.(
+      Math.min(i + UNIVERSALIS_BATCH_SIZE, itemIds.length),
+      itemIds.length
+    );
+  }
+  return result;
+}
+
+export async function fetchHistory(
+  worldOrDc: string,
+  itemId: number,
+  { entriesToReturn, entriesWithin, signal }: HistoryOptions
+): Promise<UniversalisSale[]> {
+  const data = await request(
+    `history/${encodeURIComponent(
+      worldOrDc
+    )}/${itemId}?entriesToReturn=${entriesToReturn}&entriesWithin=${entriesWithin}`,
+    historySchema,
+    { signal }
+  );
+  return data.entries;
+}
@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+// ===== Primitives =====
+// 用 `fields` 篩選時沒要的欄位整個不會出現，舊資料偶爾也會是 null，
+// 一律轉成 0 / "" 讓呼叫端不用再到處防呆
+const num = z
+  .number()
+  .nullish()
+  .transform((v) => (Number.isFinite(v) ? (v as number) : 0));
+const str = z
+  .string()
+  .nullish()
+  .transform((v) => v ?? "");
+const bool = z
+  .boolean()
+  .nullish()
+  .transform((v) => v ?? false);
+
+// ===== Current Data =====
+export const listingSchema = z.object({
+  listingID: str,
+  pricePerUnit: num,
+  quantity: num,
+  total: num,
+  tax: num,
+  hq: bool,
+  retainerName: str,
+  retainerCity: num,
+  worldName: str,
+  materia: z
+    .array(z.object({ slotID: num, materiaID: num }))
+    .nullish()
+    .transform((v) => v ?? []),
+  lastReviewTime: num, // 秒
+});
+
+export const saleSchema = z.object({
+  hq: bool,
+  pricePerUnit: num,
+  quantity: num,
+  timestamp: num, // 秒
+  worldName: str,
+  buyerName: str,
+});
+
+export const currentItemSchema = z.object({
+  itemID: num,
+  worldName: str,
+  lastUploadTime: num, // 毫秒
+  listings: z
+    .array(listingSchema)
+    .nullish()
+    .transform((v) => v ?? []),
+  recentHistory: z
+    .array(saleSchema)
+    .nullish()
+    .transform((v) => v ?? []),
+  averagePrice: num,
+  averagePriceNQ: num,
+  averagePriceHQ: num,
+  nqSaleVelocity: num,
+  hqSaleVelocity: num,
+  unitsForSale: num,
+  listingsCount: num,
+  // 伺服器 ID → 毫秒，只有查 DC / 區域時才有
+  worldUploadTimes: z
+    .record(z.string(), z.number())
+    .nullish()
+    .transform((v) => v ?? {}),
+});
+
+// 一次查多個物品時包在 `items` 裡 (v2 是以 ID 為 key 的物件)
+export const currentMultiSchema = z.object({
+  items: z
+    .union([
+      z.array(currentItemSchema),
+      z.record(z.string(), currentItemSchema),
+    ])
+    .nullish()
+    .transform((v) => (v ? Object.values(v) : [])),
+});
+
+// ===== History =====
+export const historySchema = z.object({
+  entries: z
+    .array(saleSchema)
+    .nullish()
+    .transform((v) => v ?? []),
+});
+
+// ===== Reference Data =====
+export const marketableSchema = z.array(z.number().int().positive());
+
+// 城市名稱 → 稅率百分比 (整數)
+export const taxRatesSchema = z.record(z.string(), z.number());
+
+export const worldSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+});
+
+export const dataCenterSchema = z.object({
+  name: z.string(),
+  region: z.string(),
+  worlds: z.array(z.number().int()),
+});
+
+// ===== Types =====
+export type UniversalisListing = z.infer<typeof listingSchema>;
+export type UniversalisSale = z.infer<typeof saleSchema>;
+export type UniversalisCurrentItem = z.infer<typeof currentItemSchema>;
+export type UniversalisTaxRates = z.infer<typeof taxRatesSchema>;
+export type UniversalisWorld = z.infer<typeof worldSchema>;
+export type UniversalisDataCenter = z.infer<typeof dataCenterSchema>;
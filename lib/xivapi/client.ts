@@ -0,0 +1,182 @@
+import type { z } from "zod";
+import { XIVAPI_API } from "@/lib/market/api";
+import {
+  rowSchema,
+  searchResponseSchema,
+  sheetResponseSchema,
+  type XivapiIcon,
+  type XivapiRow,
+  type XivapiSearchResult,
+} from "@/lib/xivapi/schemas";
+import {
+  buildQuery,
+  type QueryNode,
+  type XivapiLanguage,
+} from "@/lib/xivapi/query";
+
+export type { XivapiIcon, XivapiRow, XivapiSearchResult };
+
+// ===== Type Definitions =====
+type FieldsOptions<F extends z.ZodTypeAny> = {
+  fields: string[];
+  schema: F; // 驗證 `fields` 的 schema，回傳型別也由它決定
+  language?: XivapiLanguage;
+  signal?: AbortSignal;
+};
+
+export type SheetQuery<F extends z.ZodTypeAny> = FieldsOptions<F> & {
+  rows?: number[];
+  limit?: number;
+  after?: number; // 從這個 row_id 之後開始 (sheet 列表的分頁)
+};
+
+export type SearchQuery<F extends z.ZodTypeAny> = FieldsOptions<F> & {
+  sheets: string[];
+  query: string | QueryNode[];
+  limit?: number;
+};
+
+export type SearchPage<F extends z.ZodTypeAny> = {
+  results: XivapiSearchResult<F>[];
+  next: string | null; // 下一頁的 cursor
+};
+
+export type AssetFormat = "png" | "jpg" | "webp";
+
+// ===== Config / Constants =====
+// 圖示不經過代理，直接交給瀏覽器與 CDN 快取
+const ASSET_BASE = "https://v2.xivapi.com/api/asset";
+
+export const PLACEHOLDER_ICON = "/placeholder.svg?height=64&width=64";
+
+// ===== Errors =====
+export class XivapiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "XivapiError";
+  }
+}
+
+// ===== Request Core =====
+async function request<T>(
+  path: string,
+  params: URLSearchParams,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  signal?: AbortSignal
+): Promise<T> {
+  const res = await fetch(`${XIVAPI_API}/${path}?${params}`, { signal });
+  if (!res.ok) {
+    throw new XivapiError(`XIVAPI Error: ${res.status} (${path})`, res.status);
+  }
+  const parsed = schema.safeParse(await res.json());
+  if (!parsed.success) {
+    throw new XivapiError(
+      `XIVAPI response mismatch (${path}): ${parsed.error.message}`
+    );
+  }
+  return parsed.data;
+}
+
+function fieldParams({
+  fields,
+  language,
+}: Pick<FieldsOptions<z.ZodTypeAny>, "fields" | "language">) {
+  const params = new URLSearchParams({ fields: fields.join(",") });
+  if (language) params.set("language", language);
+  return params;
+}
+
+// ===== Sheets =====
+/** 列出 sheet 的 row；給 `rows` 就只查那些 ID，否則依 `limit` / `after` 分頁 */
+export async function fetchSheetRows<F extends z.ZodTypeAny>(
+  sheet: string,
+  { rows, limit, after, schema, signal, ...rest }: SheetQuery<F>
+): Promise<XivapiRow<F>[]> {
+  if (rows && !rows.length) return [];
+
+  const params = fieldParams(rest);
+  if (rows) params.set("rows", rows.join(","));
+  if (limit !== undefined) params.set("limit", String(limit));
+  if (after !== undefined) params.set("after", String(after));
+
+  const data = await request(
+    `sheet/${sheet}`,
+    params,
+    sheetResponseSchema(schema),
+    signal
+  );
+  return data.rows as XivapiRow<F>[];
+}
+
+export async function fetchSheetRow<F extends z.ZodTypeAny>(
+  sheet: string,
+  rowId: number,
+  { schema, signal, ...rest }: FieldsOptions<F>
+): Promise<XivapiRow<F>> {
+  const row = await request(
+    `sheet/${sheet}/${rowId}`,
+    fieldParams(rest),
+    rowSchema(schema),
+    signal
+  );
+  return row as XivapiRow<F>;
+}
+
+// ===== Search =====
+/**
+ * 查一頁搜尋結果。`cursor` 是上一頁回傳的 `next`；
+ * 帶 cursor 時 v2 會沿用第一次的條件，只需要再給 limit。
+ */
+export async function searchSheets<F extends z.ZodTypeAny>(
+  { sheets, query, limit, schema, signal, ...rest }: SearchQuery<F>,
+  cursor?: string
+): Promise<SearchPage<F>> {
+  const params = cursor ? new URLSearchParams({ cursor }) : fieldParams(rest);
+  if (!cursor) {
+    params.set("sheets", sheets.join(","));
+    params.set("query", typeof query === "string" ? query : buildQuery(query));
+  }
+  if (limit !== undefined) params.set("limit", String(limit));
+
+  const data = await request(
+    "search",
+    params,
+    searchResponseSchema(schema),
+    signal
+  );
+  return {
+    results: data.results as XivapiSearchResult<F>[],
+    next: data.next ?? null,
+  };
+}
+
+/** 跟著 `next` cursor 一頁一頁抓完所有結果 */
+export async function searchAll<F extends z.ZodTypeAny>(
+  search: SearchQuery<F>
+): Promise<XivapiSearchResult<F>[]> {
+  const results: XivapiSearchResult<F>[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await searchSheets(search, cursor);
+    results.push(...page.results);
+    cursor = page.next ?? undefined;
+  } while (cursor);
+  return results;
+}
+
+// ===== Assets =====
+export function assetUrl(path: string, format: AssetFormat = "png") {
+  return `${ASSET_BASE}?path=${encodeURIComponent(path)}&format=${format}`;
+}
+
+/** 優先用高解析度 (`path_hr1`)，沒有就退回一般版本，都沒有時給預設圖 */
+export function iconUrl(
+  icon: Partial<XivapiIcon> | null | undefined,
+  format: AssetFormat = "png"
+): string {
+  const path = icon?.path_hr1 || icon?.path;
+  return path ? assetUrl(path, format) : PLACEHOLDER_ICON;
+}
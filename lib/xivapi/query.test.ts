@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { buildQuery, clause, field, group } from "@/lib/xivapi/query";
+
+describe("field", () => {
+  it("leaves a plain field name alone", () => {
+    expect(field("Name")).toBe("Name");
+  });
+
+  it("adds the raw and language modifiers", () => {
+    expect(field("LevelItem", { raw: true })).toBe("LevelItem@as(raw)");
+    expect(field("Name", { lang: "ja" })).toBe("Name@lang(ja)");
+    expect(field("ItemUICategory", { raw: true, lang: "fr" })).toBe(
+      "ItemUICategory@as(raw)@lang(fr)"
+    );
+  });
+});
+
+describe("clause / group", () => {
+  it("default to must", () => {
+    expect(clause("LevelItem", ">", 1)).toEqual({
+      field: "LevelItem",
+      op: ">",
+      value: 1,
+      occur: "must",
+    });
+    expect(group([])).toEqual({ group: [], occur: "must" });
+  });
+});
+
+describe("buildQuery", () => {
+  it("joins must clauses with spaces", () => {
+    expect(
+      buildQuery([clause("Name", "~", "Potion"), clause("LevelItem", ">=", 90)])
+    ).toBe('+Name~"Potion" +LevelItem>=90');
+  });
+
+  it("prefixes each occur type", () => {
+    expect(
+      buildQuery([
+        clause("IsUntradable", "=", false, "mustNot"),
+        clause("Name", "~", "Ore", "should"),
+      ])
+    ).toBe('-IsUntradable=false Name~"Ore"');
+  });
+
+  it("wraps groups in parentheses with their own prefix", () => {
+    expect(
+      buildQuery([
+        clause("ItemSearchCategory", ">", 0),
+        group(
+          [
+            clause("Name", "~", "Iron", "should"),
+            clause(field("Name", { lang: "ja" }), "~", "鉄", "should"),
+          ],
+          "must"
+        ),
+        group([clause("Rarity", "=", 1)], "mustNot"),
+      ])
+    ).toBe(
+      '+ItemSearchCategory>0 +(Name~"Iron" Name@lang(ja)~"鉄") -(+Rarity=1)'
+    );
+  });
+
+  it("strips double quotes from string values", () => {
+    expect(buildQuery([clause("Name", "=", 'Say "Cheese"')])).toBe(
+      '+Name="Say Cheese"'
+    );
+  });
+
+  it("returns an empty string for no clauses", () => {
+    expect(buildQuery([])).toBe("");
+  });
+});
@@ -0,0 +1,74 @@
+// ===== Type Definitions =====
+// v2 支援的語言；不指定時用 API 預設 (英文)
+export type XivapiLanguage = "en" | "ja" | "de" | "fr";
+
+// `=` 完全相同，`~` 字串部分符合，其他是數值比較
+export type QueryOperator = "=" | "~" | ">" | ">=" | "<" | "<=";
+
+export type QueryValue = string | number | boolean;
+
+// must = `+`、mustNot = `-`、should = 不加前綴 (影響排序分數)
+export type QueryOccur = "must" | "mustNot" | "should";
+
+export type QueryNode =
+  | { field: string; op: QueryOperator; value: QueryValue; occur?: QueryOccur }
+  | { group: QueryNode[]; occur?: QueryOccur };
+
+export type FieldOptions = {
+  raw?: boolean; // `@as(raw)`：關聯欄位只要 ID、不展開
+  lang?: XivapiLanguage; // `@lang(ja)`：單一欄位改用別的語言
+};
+
+// ===== Fields =====
+/** 加上 v2 的欄位修飾，例如 `field("LevelItem", { raw: true })` → `LevelItem@as(raw)` */
+export function field(name: string, { raw, lang }: FieldOptions = {}) {
+  let out = name;
+  if (raw) out += "@as(raw)";
+  if (lang) out += `@lang(${lang})`;
+  return out;
+}
+
+// ===== Query Builder =====
+export function clause(
+  fieldName: string,
+  op: QueryOperator,
+  value: QueryValue,
+  occur: QueryOccur = "must"
+): QueryNode {
+  return { field: fieldName, op, value, occur };
+}
+
+export function group(
+  nodes: QueryNode[],
+  occur: QueryOccur = "must"
+): QueryNode {
+  return { group: nodes, occur };
+}
+
+const OCCUR_PREFIX: Record<QueryOccur, string> = {
+  must: "+",
+  mustNot: "-",
+  should: "",
+};
+
+// 字串要包雙引號；v2 沒有跳脫語法，只能把引號拿掉
+function formatValue(value: QueryValue) {
+  return typeof value === "string"
+    ? `"${value.replace(/"/g, "")}"`
+    : `${value}`;
+}
+
+/**
+ * 組出 `query` 參數，例如
+ * `buildQuery([clause("Name", "~", "Potion"), clause("LevelItem", ">=", 90)])`
+ * → `+Name~"Potion" +LevelItem>=90`
+ */
+export function buildQuery(nodes: QueryNode[]): string {
+  return nodes
+    .map((node) => {
+      const prefix = OCCUR_PREFIX[node.occur ?? "must"];
+      if ("group" in node) return `${prefix}(${buildQuery(node.group)})`;
+      return `${prefix}${node.field}${node.op}${formatValue(node.value)}`;
+    })
+    .join(" ");
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+// ===== Assets =====
+// v2 的圖示欄位：`path_hr1` 是高解析度版本，舊的圖示不一定有
+export const iconSchema = z.object({
+  id: z.number().optional(),
+  path: z.string().nullish(),
+  path_hr1: z.string().nullish(),
+});
+
+// ===== Rows =====
+/** 一筆 sheet row；`fields` 的形狀由呼叫端依選的欄位決定 */
+export function rowSchema<F extends z.ZodTypeAny>(fields: F) {
+  return z.object({
+    row_id: z.number().int(),
+    subrow_id: z.number().int().optional(),
+    fields,
+  });
+}
+
+/**
+ * 關聯到其他 sheet 的欄位 (例如 `ItemUICategory.Name`)。
+ * 空的關聯 row_id 是 0，而且沒有 `fields`，所以 fields 可以不存在。
+ */
+export function linkSchema<F extends z.ZodTypeAny>(fields: F) {
+  return z.object({
+    row_id: z.number().int(),
+    fields: fields.optional(),
+  });
+}
+
+export function sheetResponseSchema<F extends z.ZodTypeAny>(fields: F) {
+  return z.object({
+    schema: z.string().optional(),
+    rows: z.array(rowSchema(fields)),
+  });
+}
+
+// ===== Search =====
+export function searchResponseSchema<F extends z.ZodTypeAny>(fields: F) {
+  return z.object({
+    schema: z.string().optional(),
+    // 還有下一頁時才有，帶著它再查一次就好 (不用重送 query)
+    next: z.string().nullish(),
+    results: z.array(
+      rowSchema(fields).extend({
+        score: z.number().optional(),
+        sheet: z.string().optional(),
+      })
+    ),
+  });
+}
+
+// ===== Types =====
+export type XivapiIcon = z.infer<typeof iconSchema>;
+
+export type XivapiRow<F extends z.ZodTypeAny> = z.infer<
+  ReturnType<typeof rowSchema<F>>
+>;
+
+export type XivapiSearchResult<F extends z.ZodTypeAny> = z.infer<
+  ReturnType<typeof searchResponseSchema<F>>
+>["results"][number];
@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+// 產生 public/items.json (本地物品資料庫)。
+//
+//   pnpm items:generate [--zh-tw <Item.csv | items.json | URL>] [--out public/items.json]
+//
+// 英文 / 日文名稱、圖示、分類、物品等級、堆疊數來自 XIVAPI，
+// 可交易旗標來自 Universalis。XIVAPI 沒有繁中，繁中名稱要另外給：
+//   - 解包出來的 Item.csv (SaintCoinach 格式，第二列是欄位名稱)
+//   - 或 { "<id>": "名稱" } / { "<id>": { "name": "名稱" } } 格式的 JSON
+// 沒給的話 zh-TW 欄位留空，畫面會退回英文。
+//
+// 格式版本要和 lib/market/local-items.ts 的 LOCAL_ITEMS_VERSION 一致。
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// ===== Config / Constants =====
+const VERSION = 1;
+const XIVAPI_BASE_URL =
+  process.env.XIVAPI_BASE_URL || "https://v2.xivapi.com/api";
+const UNIVERSALIS_BASE_URL =
+  process.env.UNIVERSALIS_BASE_URL || "https://universalis.app/api/v2";
+const PAGE_SIZE = 500;
+const FIELDS = [
+  "Name",
+  "Icon",
+  "ItemUICategory@as(raw)",
+  "LevelItem@as(raw)",
+  "StackSize",
+].join(",");
+
+// ===== Helpers =====
+function parseArgs(argv) {
+  const args = { out: "public/items.json", zhTw: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--out") args.out = argv[++i];
+    else if (argv[i] === "--zh-tw") args.zhTw = argv[++i];
+    else throw new Error(`Unknown argument: ${argv[i]}`);
+  }
+  return args;
+}
+
+async function fetchJson(url, retries = 3) {
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(url);
+    if (res.ok) return res.json();
+    if (attempt >= retries || (res.status !== 429 && res.status < 500)) {
+      throw new Error(`${res.status} ${url}`);
+    }
+    await new Promise((r) => setTimeout(r, 1000 * 2 ** attempt));
+  }
+}
+
+async function readSource(source) {
+  if (/^https?:\/\//.test(source)) {
+    const res = await fetch(source);
+    if (!res.ok) throw new Error(`${res.status} ${source}`);
+    return res.text();
+  }
+  return readFile(source, "utf8");
+}
+
+// 支援雙引號包起來、內含逗號與換行的欄位
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function loadZhTwNames(source) {
+  const names = new Map();
+  if (!source) return names;
+
+  const text = await readSource(source);
+  if (source.endsWith(".json")) {
+    for (const [id, v] of Object.entries(JSON.parse(text))) {
+      const name = typeof v === "string" ? v : v?.name;
+      if (name) names.set(Number(id), name);
+    }
+    return names;
+  }
+
+  // SaintCoinach：第一列是 key,0,1,...，第二列是欄位名稱，第三列是型別
+  const rows = parseCsv(text);
+  const nameCol = rows[1]?.indexOf("Name") ?? -1;
+  if (nameCol < 0) throw new Error("Item.csv: cannot find Name column");
+  for (const row of rows.slice(3)) {
+    const id = Number(row[0]);
+    if (id > 0 && row[nameCol]) names.set(id, row[nameCol]);
+  }
+  return names;
+}
+
+async function fetchAllItems(language) {
+  const rows = [];
+  let after = -1;
+  for (;;) {
+    const query = new URLSearchParams({
+      fields: FIELDS,
+      language,
+      limit: String(PAGE_SIZE),
+    });
+    if (after >= 0) query.set("after", String(after));
+    const data = await fetchJson(`${XIVAPI_BASE_URL}/sheet/Item?${query}`);
+    const page = data.rows || [];
+    if (!page.length) break;
+    rows.push(...page);
+    after = page[page.length - 1].row_id;
+    process.stdout.write(`\r  ${language}: ${rows.length} rows`);
+  }
+  process.stdout.write("\n");
+  return rows;
+}
+
+// ===== Main =====
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  console.log("Fetching marketable IDs...");
+  const marketable = new Set(
+    await fetchJson(`${UNIVERSALIS_BASE_URL}/marketable`)
+  );
+
+  console.log("Fetching items from XIVAPI...");
+  const enRows = await fetchAllItems("en");
+  const jaRows = await fetchAllItems("ja");
+  const jaNames = new Map(jaRows.map((r) => [r.row_id, r.fields?.Name || ""]));
+
+  const zhTwNames = await loadZhTwNames(args.zhTw);
+  if (args.zhTw) console.log(`Loaded ${zhTwNames.size} zh-TW names`);
+
+  const items = [];
+  for (const row of enRows) {
+    const f = row.fields || {};
+    if (!row.row_id || !f.Name) continue; // 空白的預留列
+    const zhTw = zhTwNames.get(row.row_id);
+    items.push({
+      id: row.row_id,
+      names: {
+        ...(zhTw ? { "zh-TW": zhTw } : {}),
+        en: f.Name,
+        ja: jaNames.get(row.row_id) || "",
+      },
+      icon: f.Icon?.path_hr1 || f.Icon?.path || "",
+      category: Number(f["ItemUICategory@as(raw)"]) || 0,
+      itemLevel: Number(f["LevelItem@as(raw)"]) || 0,
+      stackSize: Number(f.StackSize) || 0,
+      marketable: marketable.has(row.row_id),
+    });
+  }
+
+  const out = path.resolve(args.out);
+  await mkdir(path.dirname(out), { recursive: true });
+  await writeFile(
+    out,
+    JSON.stringify({
+      version: VERSION,
+      generatedAt: new Date().toISOString(),
+      items,
+    })
+  );
+  console.log(`Wrote ${items.length} items to ${args.out}`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});